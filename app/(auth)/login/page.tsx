@@ -1,18 +1,28 @@
 'use client';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { login } from '@/lib/auth';
+import { login, restoreSession, safeRedirectPath } from '@/lib/auth';
 import { AlertCircle, Loader2 } from 'lucide-react';
 
-export default function LoginPage() {
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const redirectTo = safeRedirectPath(searchParams.get('from'));
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
+  // Middleware sends users here when their access token has expired; if a
+  // refresh token is still around, take them straight back where they were.
+  useEffect(() => {
+    restoreSession().then((restored) => {
+      if (restored) router.replace(redirectTo);
+    });
+  }, [router, redirectTo]);
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError('');
@@ -20,7 +30,7 @@ export default function LoginPage() {
 
     try {
       await login(email, password);
-      router.replace('/dashboard');
+      router.replace(redirectTo);
     } catch (err: unknown) {
       const message =
         err instanceof Error
@@ -116,3 +126,15 @@ export default function LoginPage() {
     </div>
   );
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+      </div>
+    }>
+      <LoginForm />
+    </Suspense>
+  );
+}
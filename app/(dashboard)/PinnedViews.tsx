@@ -0,0 +1,118 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import sdk from '@/lib/sdk';
+import {
+  issueListParams, issuesHref, issueViewQuery, parseIssueView, savedViewConfig, visibleBoardColumns,
+} from '@/lib/issueFilters';
+import type { IssueViewConfig } from '@/lib/issueFilters';
+import { useSavedViews } from '@/lib/useSavedViews';
+import { useRealtimeChannel } from '@/components/RealtimeProvider';
+import type { IssueListParams, SavedView } from '@/types';
+import { Bookmark } from 'lucide-react';
+
+// Board activity arrives in bursts; recount at most this often
+const RECOUNT_MS = 5_000;
+
+// What the view counts when opened: the board leaves out dismissed issues and
+// hidden columns, and totals its columns one by one
+function countQueries(view: IssueViewConfig): IssueListParams[] {
+  const params = issueListParams(view);
+  if (view.layout === 'list') return [params];
+  return visibleBoardColumns(view).map((col) => ({ ...params, kanban_column: col }));
+}
+
+/** Matching issue counts per pinned view, kept current from the board channel. */
+function usePinnedCounts(pinned: SavedView[]): Record<string, number> {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [tick, setTick] = useState(0);
+  const recountTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pinnedRef = useRef(pinned);
+  pinnedRef.current = pinned;
+
+  // Recount when a pinned view is added, removed or edited
+  const key = pinned.map((v) => `${v.id}:${v.query}`).join(' ');
+
+  useEffect(() => {
+    let cancelled = false;
+    pinnedRef.current.forEach((saved) => {
+      Promise.all(countQueries(savedViewConfig(saved)).map((params) => sdk.issues.listPage({ ...params, limit: 1 })))
+        .then((pages) => {
+          const total = pages.reduce((n, page) => n + page.total, 0);
+          if (!cancelled) setCounts((prev) => ({ ...prev, [saved.id]: total }));
+        })
+        .catch(() => {
+          // Keep the last count; the next board event tries again
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, tick]);
+
+  useEffect(() => () => {
+    if (recountTimer.current) clearTimeout(recountTimer.current);
+  }, []);
+
+  useRealtimeChannel(pinned.length > 0 ? 'board' : null, () => {
+    if (recountTimer.current) return;
+    recountTimer.current = setTimeout(() => {
+      recountTimer.current = null;
+      setTick((t) => t + 1);
+    }, RECOUNT_MS);
+  });
+
+  return counts;
+}
+
+function PinnedViewList({ onNavigate }: { onNavigate: () => void }) {
+  const { views, prefs } = useSavedViews();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const pinned = prefs.pinned_view_ids
+    .map((id) => views.find((v) => v.id === id))
+    .filter((v): v is SavedView => v !== undefined);
+  const counts = usePinnedCounts(pinned);
+
+  if (pinned.length === 0) return null;
+
+  const currentQuery = pathname === '/issues' ? issueViewQuery(parseIssueView(searchParams)) : null;
+
+  return (
+    <div className="pt-3 mt-1 border-t border-slate-800">
+      <p className="px-3 pb-1 text-xs text-slate-500 font-medium uppercase tracking-wide">Pinned views</p>
+      {pinned.map((saved) => {
+        const view = savedViewConfig(saved);
+        const active = currentQuery === issueViewQuery(view);
+        return (
+          <Link
+            key={saved.id}
+            href={issuesHref(view)}
+            onClick={onNavigate}
+            className={`flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition ${
+              active ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+            }`}
+          >
+            <Bookmark className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1 truncate">{saved.name}</span>
+            {counts[saved.id] !== undefined && (
+              <span className="text-xs text-slate-500 tabular-nums">{counts[saved.id]}</span>
+            )}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
+
+/** The sidebar's pinned saved views, each with its current issue count. */
+export default function PinnedViews({ onNavigate }: { onNavigate: () => void }) {
+  return (
+    <Suspense fallback={null}>
+      <PinnedViewList onNavigate={onNavigate} />
+    </Suspense>
+  );
+}
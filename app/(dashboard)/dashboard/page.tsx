@@ -2,8 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import api from '@/lib/api';
-import type { Issue, Site } from '@/types';
+import sdk from '@/lib/sdk';
+import type { Issue } from '@/types';
 import {
   AlertTriangle,
   CheckCircle,
@@ -84,13 +84,11 @@ export default function DashboardPage() {
   useEffect(() => {
     async function load() {
       try {
-        const [issuesRes, sitesRes] = await Promise.all([
-          api.get<Issue[]>('/api/v1/issues/', { params: { limit: 10 } }),
-          api.get<Site[]>('/api/v1/sites/'),
+        const [issues, sites] = await Promise.all([
+          sdk.issues.list({ limit: 10 }),
+          sdk.sites.list(),
         ]);
 
-        const issues = issuesRes.data;
-        const sites = sitesRes.data;
         const now = Date.now();
         const oneDay = 24 * 60 * 60 * 1000;
 
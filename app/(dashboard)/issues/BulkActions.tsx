@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import sdk from '@/lib/sdk';
+import { runBulk } from '@/lib/bulk';
+import { downloadFile, fetchAllIssues, issuesCsv } from '@/lib/issueExport';
+import { PRIORITY_OPTIONS } from '@/lib/issueFilters';
+import {
+  approvalTransition, customerTransition, customerTransitions, rejectionTransition,
+} from '@/lib/transitions';
+import type { CustomerTransition } from '@/lib/transitions';
+import { ApproveDialog, RejectDialog } from '@/components/FeedbackDialogs';
+import { KANBAN_LABELS } from '@/components/KanbanBadge';
+import type { Issue, KanbanColumn, Site, TransitionRequest } from '@/types';
+import { AlertTriangle, CheckCircle, Download, Loader2, X, XCircle } from 'lucide-react';
+
+interface BulkSummary {
+  /** e.g. "Moved 4 tickets to Done." */
+  message: string;
+  failed: { issue: Issue; reason: string }[];
+  /** The failed tickets were left selected for a retry. */
+  keptSelected?: boolean;
+}
+
+const controlClass = 'bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white disabled:opacity-60';
+
+function ticketLabel(issue: Issue): string {
+  return issue.ticket_number ? `TKT-${String(issue.ticket_number).padStart(3, '0')}` : issue.title;
+}
+
+function tickets(n: number): string {
+  return `${n} ${n === 1 ? 'ticket' : 'tickets'}`;
+}
+
+function summarize(done: string, total: number, failed: BulkSummary['failed']): BulkSummary {
+  const succeeded = total - failed.length;
+  const message = succeeded > 0
+    ? `${done} ${tickets(succeeded)}.`
+    : `Nothing changed.`;
+  return { message, failed };
+}
+
+/**
+ * Selection toolbar for the issue list: acts on every selected ticket at
+ * once and reports the ones the API turned down, which stay selected so
+ * they can be retried.
+ */
+export default function BulkActions({ issues, selectedIds, sites, onSelectionChange, onUpdated }: {
+  /** The loaded issues, in list order. */
+  issues: Issue[];
+  selectedIds: Set<string>;
+  sites: Site[];
+  onSelectionChange: (ids: Set<string>) => void;
+  onUpdated: (updated: Issue[]) => void;
+}) {
+  const [running, setRunning] = useState('');
+  const [summary, setSummary] = useState<BulkSummary | null>(null);
+  // A UAT verdict for the selection, waiting for its feedback
+  const [pendingMove, setPendingMove] = useState<{ to: KanbanColumn; verdict: NonNullable<CustomerTransition['verdict']> } | null>(null);
+  const selectAll = useRef<HTMLInputElement>(null);
+
+  const selected = issues.filter((i) => selectedIds.has(i.id));
+  const siteNames: Record<string, string> = Object.fromEntries(sites.map((s) => [s.id, s.name ?? s.url]));
+  const allSelected = issues.length > 0 && selected.length === issues.length;
+
+  useEffect(() => {
+    if (selectAll.current) selectAll.current.indeterminate = selected.length > 0 && !allSelected;
+  }, [selected.length, allSelected]);
+
+  // Columns at least one selected ticket may be moved to
+  const moveTargets = Array.from(new Set(
+    selected.flatMap((i) => customerTransitions(i.kanban_column ?? 'triage').map((t) => t.to))
+  ));
+
+  // `fromSelection` is false for targets fetched from the API, which may not
+  // be loaded; the selection is then left as it was
+  async function apply(
+    label: string,
+    targets: Issue[],
+    action: (issue: Issue) => Promise<Issue>,
+    skipped: BulkSummary['failed'] = [],
+    fromSelection = true,
+  ) {
+    setRunning(label);
+    setSummary(null);
+    const outcome = await runBulk(targets, action);
+    const updated = outcome.succeeded.map((s) => s.result);
+    const failed = [...skipped, ...outcome.failed.map((f) => ({ issue: f.item, reason: f.message }))];
+    onUpdated(updated);
+    if (fromSelection) onSelectionChange(new Set(failed.map((f) => f.issue.id)));
+    setSummary({ ...summarize(label, targets.length + skipped.length, failed), keptSelected: fromSelection });
+    setRunning('');
+  }
+
+  function changePriority(priority: Issue['priority']) {
+    const targets = selected.filter((i) => i.priority !== priority);
+    apply(`Set to ${priority}:`, targets, (i) => sdk.issues.update(i.id, { priority }));
+  }
+
+  function dismiss() {
+    if (!confirm(`Dismiss ${tickets(selected.length)}? The agents will stop working on them.`)) return;
+    const closed = (i: Issue) => i.kanban_column === 'done' || i.kanban_column === 'dismissed';
+    apply(
+      'Dismissed',
+      selected.filter((i) => !closed(i)),
+      (i) => sdk.issues.dismiss(i.id),
+      selected.filter(closed).map((issue) => ({ issue, reason: 'Already closed' })),
+    );
+  }
+
+  // `verdict` is sent for tickets whose move is a UAT sign-off, so they carry
+  // the same feedback as signing off one at a time
+  function move(to: KanbanColumn, verdict?: TransitionRequest) {
+    const allowed = selected.filter((i) => customerTransition(i.kanban_column ?? 'triage', to));
+    const skipped = selected
+      .filter((i) => !allowed.includes(i))
+      .map((issue) => ({
+        issue,
+        reason: `Can't be moved from ${KANBAN_LABELS[issue.kanban_column ?? 'triage']}`,
+      }));
+    apply(`Moved to ${KANBAN_LABELS[to]}:`, allowed, (i) => {
+      const needsVerdict = customerTransition(i.kanban_column ?? 'triage', to)?.verdict;
+      return sdk.issues.transition(i.id, needsVerdict && verdict ? verdict : { to_col: to });
+    }, skipped);
+  }
+
+  function verdictCount(to: KanbanColumn): number {
+    return selected.filter((i) => customerTransition(i.kanban_column ?? 'triage', to)?.verdict).length;
+  }
+
+  function chooseMove(to: KanbanColumn) {
+    const verdict = selected
+      .map((i) => customerTransition(i.kanban_column ?? 'triage', to)?.verdict)
+      .find((v) => v !== undefined);
+    if (verdict) setPendingMove({ to, verdict });
+    else move(to);
+  }
+
+  async function approvePending(siteId: string) {
+    const site = siteNames[siteId] ?? 'this site';
+    setRunning('Finding pending fixes');
+    setSummary(null);
+    try {
+      // Every pending fix on the site, not just the loaded ones
+      const pending = await fetchAllIssues({ site_id: siteId, status: 'pending_approval' });
+
+      if (pending.length === 0) {
+        setSummary({ message: `No fixes are waiting for approval on ${site}.`, failed: [] });
+        return;
+      }
+      if (!confirm(`Approve ${pending.length} pending ${pending.length === 1 ? 'fix' : 'fixes'} on ${site}?`)) return;
+      await apply(`Approved fixes on ${site}:`, pending, (i) => sdk.issues.approve(i.id), [], false);
+    } catch (e) {
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      setSummary({ message: typeof d === 'string' ? d : 'Couldn’t load the pending fixes.', failed: [] });
+    } finally {
+      setRunning('');
+    }
+  }
+
+  function exportSelected() {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`sitedoc-issues-${date}.csv`, issuesCsv(selected, siteNames), 'text/csv');
+  }
+
+  const busy = running !== '';
+
+  return (
+    <>
+      {pendingMove?.verdict === 'approved' && (
+        <ApproveDialog
+          title={`UAT pass — ${tickets(verdictCount(pendingMove.to))}`}
+          submitting={false}
+          error=""
+          onCancel={() => setPendingMove(null)}
+          onConfirm={(body) => {
+            move(pendingMove.to, approvalTransition(pendingMove.to, body));
+            setPendingMove(null);
+          }}
+        />
+      )}
+      {pendingMove?.verdict === 'rejected' && (
+        <RejectDialog
+          title={`UAT fail — ${tickets(verdictCount(pendingMove.to))}`}
+          // Screenshots belong to one ticket each, so none are offered here
+          attachments={[]}
+          submitting={false}
+          error=""
+          onCancel={() => setPendingMove(null)}
+          onConfirm={(body) => {
+            move(pendingMove.to, rejectionTransition(pendingMove.to, body));
+            setPendingMove(null);
+          }}
+        />
+      )}
+
+      <div className="sticky top-0 z-10 -mx-1 px-1 py-2 mb-3 bg-slate-900 flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm text-slate-400 mr-1">
+          <input
+            ref={selectAll}
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => onSelectionChange(allSelected ? new Set() : new Set(issues.map((i) => i.id)))}
+            disabled={issues.length === 0 || busy}
+            className="accent-blue-500"
+            aria-label="Select all loaded issues"
+          />
+          {selected.length > 0 ? `${selected.length} selected` : 'Select'}
+        </label>
+
+        {selected.length > 0 && (
+          <>
+            <select value="" disabled={busy} aria-label="Change priority" className={controlClass}
+              onChange={(e) => changePriority(e.target.value as Issue['priority'])}>
+              <option value="" disabled>Priority…</option>
+              {PRIORITY_OPTIONS.map((p) => <option key={p} value={p} className="capitalize">{p}</option>)}
+            </select>
+
+            <select value="" disabled={busy || moveTargets.length === 0} aria-label="Move to column" className={controlClass}
+              onChange={(e) => chooseMove(e.target.value as KanbanColumn)}
+              title={moveTargets.length === 0 ? 'None of the selected tickets can be moved by you right now' : undefined}>
+              <option value="" disabled>Move to…</option>
+              {moveTargets.map((col) => <option key={col} value={col}>{KANBAN_LABELS[col]}</option>)}
+            </select>
+
+            <button onClick={dismiss} disabled={busy}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-300 hover:text-red-300 bg-slate-800 border border-slate-700 rounded-lg transition disabled:opacity-60">
+              <XCircle className="w-3.5 h-3.5" />
+              Dismiss
+            </button>
+
+            <button onClick={exportSelected} disabled={busy}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-300 hover:text-white bg-slate-800 border border-slate-700 rounded-lg transition disabled:opacity-60">
+              <Download className="w-3.5 h-3.5" />
+              Export CSV
+            </button>
+
+            <button onClick={() => onSelectionChange(new Set())} disabled={busy}
+              className="px-2 py-1.5 text-sm text-slate-500 hover:text-white transition">
+              Clear
+            </button>
+          </>
+        )}
+
+        {busy && (
+          <span className="flex items-center gap-1.5 text-xs text-slate-400">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            {running}…
+          </span>
+        )}
+
+        {sites.length > 0 && (
+          <select value="" disabled={busy} aria-label="Approve pending fixes for a site"
+            className={`${controlClass} ml-auto`}
+            onChange={(e) => approvePending(e.target.value)}>
+            <option value="" disabled>Approve pending fixes…</option>
+            {sites.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {summary && (
+        <div className={`mb-4 rounded-lg border px-4 py-3 text-sm ${
+          summary.failed.length > 0
+            ? 'border-amber-700/50 bg-amber-900/20 text-amber-200'
+            : 'border-green-700/50 bg-green-900/20 text-green-300'
+        }`}>
+          <div className="flex items-start gap-2">
+            {summary.failed.length > 0
+              ? <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              : <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />}
+            <div className="flex-1 min-w-0">
+              <p>
+                {summary.message}
+                {summary.failed.length > 0 && ` ${tickets(summary.failed.length)} weren’t changed${summary.keptSelected ? ' and are still selected' : ''}:`}
+              </p>
+              {summary.failed.length > 0 && (
+                <ul className="mt-2 flex flex-col gap-1 text-xs">
+                  {summary.failed.map(({ issue, reason }) => (
+                    <li key={issue.id} className="flex gap-2 min-w-0">
+                      <span className="font-mono text-amber-300 flex-shrink-0">{ticketLabel(issue)}</span>
+                      <span className="truncate text-amber-100/80" title={issue.title}>{issue.title}</span>
+                      <span className="ml-auto flex-shrink-0 text-amber-400">{reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <button onClick={() => setSummary(null)} className="opacity-70 hover:opacity-100" aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
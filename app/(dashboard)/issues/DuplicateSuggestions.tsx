@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import sdk from '@/lib/sdk';
+import { KanbanBadge } from '@/components/KanbanBadge';
+import type { SimilarIssue } from '@/types';
+import { ArrowRight, CheckCircle, Copy, Loader2, MessageSquare, X } from 'lucide-react';
+
+// Wait for a pause in typing before searching
+const DEBOUNCE_MS = 500;
+// Shorter titles match too much to be useful
+const MIN_TITLE_LENGTH = 8;
+const MAX_SUGGESTIONS = 3;
+
+function useSimilarIssues(siteId: string, title: string, description: string) {
+  const [matches, setMatches] = useState<SimilarIssue[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!siteId || title.trim().length < MIN_TITLE_LENGTH) {
+      setMatches([]);
+      setSearching(false);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setSearching(true);
+      sdk.issues
+        .findSimilar(
+          { site_id: siteId, title: title.trim(), description: description.trim() || undefined, limit: MAX_SUGGESTIONS },
+          controller.signal,
+        )
+        .then(setMatches)
+        .catch(() => {
+          // Aborted by the next keystroke, or the search is down; either way say nothing
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setSearching(false);
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [siteId, title, description]);
+
+  return { matches, searching };
+}
+
+/**
+ * Warns, while a new issue is being written, about open issues on the same
+ * site that look like the same problem, and offers to add a comment to one
+ * of those instead of filing another.
+ */
+export default function DuplicateSuggestions({ siteId, title, description, onCommented }: {
+  siteId: string;
+  title: string;
+  description: string;
+  /** Called after the draft was posted to an existing issue instead. */
+  onCommented: (issueId: string) => void;
+}) {
+  const { matches, searching } = useSimilarIssues(siteId, title, description);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [commentingOn, setCommentingOn] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<SimilarIssue | null>(null);
+  const [error, setError] = useState('');
+
+  const shown = matches.filter((m) => !dismissed.includes(m.id));
+
+  function startComment(id: string) {
+    setCommentingOn(id);
+    setError('');
+    setComment([title.trim(), description.trim()].filter(Boolean).join('\n\n'));
+  }
+
+  async function sendComment(match: SimilarIssue) {
+    if (!comment.trim()) return;
+    setSending(true);
+    setError('');
+    try {
+      await sdk.issues.sendMessage(match.id, { content: comment.trim() });
+      setSentTo(match);
+      setCommentingOn(null);
+    } catch (e) {
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      setError(typeof d === 'string' ? d : 'Failed to add your comment.');
+    } finally {
+      setSending(false);
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <div className="flex items-start gap-2 rounded-lg border border-green-700/50 bg-green-900/20 px-3 py-2.5 text-sm text-green-300">
+        <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          Added to {sentTo.ticket_number ? `TKT-${String(sentTo.ticket_number).padStart(3, '0')}` : `“${sentTo.title}”`}.
+          <div className="flex gap-3 mt-1.5 text-xs">
+            <Link href={`/issues/${sentTo.id}`} className="text-green-200 hover:text-white underline underline-offset-2">
+              Open the ticket
+            </Link>
+            <button type="button" onClick={() => onCommented(sentTo.id)} className="text-green-200 hover:text-white underline underline-offset-2">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (shown.length === 0) {
+    return searching ? (
+      <p className="flex items-center gap-1.5 text-xs text-slate-500">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Checking for similar issues…
+      </p>
+    ) : null;
+  }
+
+  return (
+    <div className="rounded-lg border border-amber-600/40 bg-amber-500/5 px-3 py-2.5">
+      <p className="flex items-center gap-1.5 text-xs font-medium text-amber-300 mb-2">
+        <Copy className="w-3.5 h-3.5" />
+        This may already be reported
+      </p>
+      <ul className="flex flex-col gap-2">
+        {shown.map((m) => (
+          <li key={m.id} className="rounded-lg bg-slate-800/80 px-3 py-2">
+            <div className="flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-200 truncate" title={m.title}>
+                  {m.ticket_number && (
+                    <span className="font-mono text-xs text-slate-500 mr-1.5">
+                      TKT-{String(m.ticket_number).padStart(3, '0')}
+                    </span>
+                  )}
+                  {m.title}
+                </p>
+                <div className="flex items-center gap-2 mt-1">
+                  <KanbanBadge col={m.kanban_column} />
+                  <span className="text-[10px] text-slate-500">{Math.round(m.score * 100)}% match</span>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => setDismissed((prev) => [...prev, m.id])}
+                className="p-0.5 text-slate-500 hover:text-white transition"
+                title="Not the same problem"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {commentingOn === m.id ? (
+              <div className="mt-2 flex flex-col gap-2">
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  autoFocus
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none"
+                />
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={() => setCommentingOn(null)}
+                    className="px-3 py-1 text-xs text-slate-400 hover:text-white transition">
+                    Cancel
+                  </button>
+                  <button type="button" onClick={() => sendComment(m)} disabled={sending || !comment.trim()}
+                    className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-xs font-semibold px-3 py-1 rounded-lg transition">
+                    {sending && <Loader2 className="w-3 h-3 animate-spin" />}
+                    Add comment
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-3 mt-2 text-xs">
+                <Link href={`/issues/${m.id}`} className="flex items-center gap-1 text-blue-400 hover:text-blue-300 transition">
+                  View ticket
+                  <ArrowRight className="w-3 h-3" />
+                </Link>
+                <button type="button" onClick={() => startComment(m.id)}
+                  className="flex items-center gap-1 text-blue-400 hover:text-blue-300 transition">
+                  <MessageSquare className="w-3 h-3" />
+                  Comment there instead
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
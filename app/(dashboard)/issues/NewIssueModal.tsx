@@ -0,0 +1,359 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import sdk from '@/lib/sdk';
+import { captureEnvironment, describeEnvironment } from '@/lib/environment';
+import { composeDescription, missingFields } from '@/lib/templates';
+import { formatBytes, MAX_ATTACHMENT_BYTES, nameClipboardFile } from '@/lib/uploads';
+import { useUploadQueue } from '@/lib/useUploadQueue';
+import { ScreenshotAnnotator } from '@/components/ScreenshotAnnotator';
+import { UploadQueue } from '@/components/UploadQueue';
+import DuplicateSuggestions from './DuplicateSuggestions';
+import type { Attachment, ClientEnvironment, Issue, IssueTemplate, Site } from '@/types';
+import { Loader2, Paperclip, Plus, Upload, X } from 'lucide-react';
+
+const MAX_PAGE_URLS = 5;
+
+/**
+ * Accepts full URLs or paths on the selected site ("/checkout"). Returns
+ * null for anything that isn't an http(s) URL once resolved.
+ */
+function resolvePageUrl(input: string, siteUrl: string | undefined): string | null {
+  const value = input.trim();
+  if (!value) return null;
+  try {
+    const url = /^[a-z][a-z0-9+.-]*:/i.test(value)
+      ? new URL(value)
+      : siteUrl
+        ? new URL(value, siteUrl)
+        : new URL(`https://${value}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function NewIssueModal({ sites, onClose, onCreated }: {
+  sites: Site[];
+  onClose: () => void;
+  onCreated: (issue: Issue) => void;
+}) {
+  const [siteId, setSiteId] = useState(sites[0]?.id ?? '');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<Issue['priority']>('medium');
+  const [templates, setTemplates] = useState<IssueTemplate[]>([]);
+  const [template, setTemplate] = useState<IssueTemplate | null>(null);
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  const [pageUrls, setPageUrls] = useState<string[]>(['']);
+  const [environment] = useState<ClientEnvironment>(captureEnvironment);
+  const [includeEnvironment, setIncludeEnvironment] = useState(true);
+  const [staged, setStaged] = useState<Attachment[]>([]);
+  const [annotating, setAnnotating] = useState<File | null>(null);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const uploads = useUploadQueue(
+    (file, opts) => sdk.issues.stageAttachment(file, opts),
+    (attachment) => setStaged((prev) => [...prev, attachment]),
+  );
+  const { addFiles } = uploads;
+
+  // Templates are a convenience; without them the form works as before
+  useEffect(() => {
+    sdk.templates.list().then(setTemplates).catch(() => {});
+  }, []);
+
+  const siteUrl = sites.find((s) => s.id === siteId)?.url;
+  const invalidUrls = pageUrls.filter((u) => u.trim() && !resolvePageUrl(u, siteUrl));
+  const hasPageUrl = pageUrls.some((u) => resolvePageUrl(u, siteUrl));
+  const missing = template ? missingFields(template, fieldValues) : [];
+  const incomplete = missing.length > 0 || (!!template?.require_page_url && !hasPageUrl);
+
+  function chooseTemplate(next: IssueTemplate | null) {
+    // Only replace a title the customer hasn't written themselves
+    if (!title.trim() || title === template?.title) setTitle(next?.title ?? '');
+    setPriority(next?.default_priority ?? 'medium');
+    setTemplate(next);
+  }
+
+  // A pasted screenshot opens in the annotator; other files queue directly
+  useEffect(() => {
+    if (annotating) return;
+    function onPaste(e: ClipboardEvent) {
+      const files = Array.from(e.clipboardData?.items ?? [])
+        .filter((item) => item.kind === 'file')
+        .map((item) => item.getAsFile())
+        .filter((f): f is File => f !== null)
+        .map(nameClipboardFile);
+      if (files.length === 0) return;
+      e.preventDefault();
+      const screenshot = files.find((f) => f.type.startsWith('image/'));
+      if (screenshot) setAnnotating(screenshot);
+      addFiles(files.filter((f) => f !== screenshot));
+    }
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [addFiles, annotating]);
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  }
+
+  function setPageUrl(index: number, value: string) {
+    setPageUrls((prev) => prev.map((u, i) => (i === index ? value : u)));
+  }
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!siteId || !title.trim() || uploads.busy || invalidUrls.length > 0 || incomplete) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      const urls = pageUrls
+        .map((u) => resolvePageUrl(u, siteUrl))
+        .filter((u): u is string => u !== null);
+      const answers = template
+        ? Object.fromEntries(
+            template.fields
+              .filter((f) => fieldValues[f.key]?.trim())
+              .map((f) => [f.key, fieldValues[f.key].trim()])
+          )
+        : undefined;
+      const created = await sdk.issues.create({
+        site_id: siteId,
+        title,
+        description: template ? composeDescription(template, fieldValues, description) : description,
+        priority,
+        template_id: template?.id,
+        template_fields: answers,
+        page_urls: urls.length > 0 ? urls : undefined,
+        environment: includeEnvironment ? environment : undefined,
+        attachment_ids: staged.length > 0 ? staged.map((a) => a.id) : undefined,
+      });
+      onCreated(created);
+    } catch (e) {
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      setError(typeof d === 'string' ? d : 'Failed to create issue.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      {annotating && (
+        <ScreenshotAnnotator
+          file={annotating}
+          onCancel={() => setAnnotating(null)}
+          onSave={(annotated) => { setAnnotating(null); addFiles([annotated]); }}
+          onSkip={() => { addFiles([annotating]); setAnnotating(null); }}
+        />
+      )}
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-bold text-white mb-4">New Issue</h2>
+        <form onSubmit={submit} className="flex flex-col gap-4">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Site</label>
+            <select value={siteId} onChange={e => setSiteId(e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
+              {sites.map(s => <option key={s.id} value={s.id}>{s.name ?? s.url}</option>)}
+            </select>
+          </div>
+          {templates.length > 0 && (
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">What kind of problem is it?</label>
+              <div className="flex flex-wrap gap-1.5">
+                {[null, ...templates].map((t) => (
+                  <button
+                    key={t?.id ?? 'blank'}
+                    type="button"
+                    onClick={() => chooseTemplate(t)}
+                    aria-pressed={template?.id === t?.id}
+                    className={`text-xs rounded-full border px-3 py-1 transition ${
+                      template?.id === t?.id
+                        ? 'border-blue-500 bg-blue-500/15 text-white'
+                        : 'border-slate-700 bg-slate-800 text-slate-300 hover:border-slate-500'
+                    }`}
+                  >
+                    {t?.name ?? 'Something else'}
+                  </button>
+                ))}
+              </div>
+              {template && <p className="text-xs text-slate-500 mt-1.5">{template.description}</p>}
+            </div>
+          )}
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Title</label>
+            <input value={title} onChange={e => setTitle(e.target.value)} required
+              placeholder="Brief description of the issue"
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500" />
+          </div>
+          <DuplicateSuggestions siteId={siteId} title={title} description={description} onCommented={onClose} />
+          {template?.fields.map((f) => (
+            <div key={f.key}>
+              <label className="block text-xs text-slate-400 mb-1">
+                {f.label}{!f.required && ' (optional)'}
+              </label>
+              {f.type === 'textarea' ? (
+                <textarea
+                  value={fieldValues[f.key] ?? ''}
+                  onChange={e => setFieldValues((prev) => ({ ...prev, [f.key]: e.target.value }))}
+                  rows={2}
+                  required={f.required}
+                  placeholder={f.placeholder}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none"
+                />
+              ) : (
+                <input
+                  type={f.type === 'date' ? 'date' : 'text'}
+                  value={fieldValues[f.key] ?? ''}
+                  onChange={e => setFieldValues((prev) => ({ ...prev, [f.key]: e.target.value }))}
+                  required={f.required}
+                  placeholder={f.placeholder}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 [color-scheme:dark]"
+                />
+              )}
+            </div>
+          ))}
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">{template ? 'Anything else? (optional)' : 'Details (optional)'}</label>
+            <textarea value={description} onChange={e => setDescription(e.target.value)} rows={3}
+              placeholder="Steps to reproduce, expected vs actual behaviour..."
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none" />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">
+              Affected pages{template?.require_page_url ? '' : ' (optional)'}
+            </label>
+            <div className="flex flex-col gap-2">
+              {pageUrls.map((url, i) => {
+                const invalid = !!url.trim() && !resolvePageUrl(url, siteUrl);
+                return (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      value={url}
+                      onChange={e => setPageUrl(i, e.target.value)}
+                      placeholder={siteUrl ? `${siteUrl.replace(/\/$/, '')}/checkout or /checkout` : 'https://example.com/checkout'}
+                      aria-invalid={invalid}
+                      className={`flex-1 bg-slate-800 border rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 ${
+                        invalid ? 'border-red-500' : 'border-slate-700'
+                      }`}
+                    />
+                    {pageUrls.length > 1 && (
+                      <button type="button" onClick={() => setPageUrls((prev) => prev.filter((_, j) => j !== i))}
+                        className="p-1.5 text-slate-500 hover:text-white transition" title="Remove">
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {invalidUrls.length > 0 && (
+              <p className="text-xs text-red-400 mt-1">Enter a web address or a path like /checkout.</p>
+            )}
+            {template?.require_page_url && !hasPageUrl && invalidUrls.length === 0 && (
+              <p className="text-xs text-slate-500 mt-1">Add at least one page where this happens.</p>
+            )}
+            {pageUrls.length < MAX_PAGE_URLS && (
+              <button type="button" onClick={() => setPageUrls((prev) => [...prev, ''])}
+                className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 mt-2 transition">
+                <Plus className="w-3 h-3" />
+                Add another page
+              </button>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Priority</label>
+            <select value={priority} onChange={e => setPriority(e.target.value as Issue['priority'])}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
+              {['low', 'medium', 'high', 'critical'].map(p => (
+                <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Screenshots and files (optional)</label>
+            <div
+              onDragOver={e => { e.preventDefault(); setDraggingFiles(true); }}
+              onDragLeave={() => setDraggingFiles(false)}
+              onDrop={handleDrop}
+              className={`rounded-lg border border-dashed px-3 py-4 text-center text-xs transition ${
+                draggingFiles ? 'border-blue-500 bg-blue-500/10 text-blue-300' : 'border-slate-700 text-slate-500'
+              }`}
+            >
+              <Upload className="w-4 h-4 mx-auto mb-1" />
+              Drop files here, paste a screenshot, or{' '}
+              <button type="button" onClick={() => fileInputRef.current?.click()}
+                className="text-blue-400 hover:text-blue-300 underline transition">
+                browse
+              </button>
+              <span className="block mt-0.5 text-slate-600">Up to {formatBytes(MAX_ATTACHMENT_BYTES)} each</span>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              multiple
+              onChange={e => { addFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+            />
+            {staged.length > 0 && (
+              <ul className="flex flex-col gap-1.5 mt-2">
+                {staged.map((a) => (
+                  <li key={a.id} className="flex items-center gap-2 rounded-lg border border-slate-700 bg-slate-800/60 px-3 py-1.5">
+                    <Paperclip className="w-3.5 h-3.5 text-slate-500 flex-shrink-0" />
+                    <span className="flex-1 min-w-0 truncate text-sm text-slate-200">{a.filename}</span>
+                    <span className="text-xs text-slate-500">{formatBytes(a.size_bytes)}</span>
+                    <button type="button" onClick={() => setStaged((prev) => prev.filter((s) => s.id !== a.id))}
+                      className="p-0.5 text-slate-400 hover:text-white transition" title="Remove">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {uploads.items.length > 0 && (
+              <div className="mt-2">
+                <UploadQueue
+                  items={uploads.items}
+                  onCancel={uploads.cancel}
+                  onRetry={uploads.retry}
+                  onDismiss={uploads.dismiss}
+                />
+              </div>
+            )}
+          </div>
+          <label className="flex items-start gap-2 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeEnvironment}
+              onChange={e => setIncludeEnvironment(e.target.checked)}
+              className="mt-0.5 accent-blue-500"
+            />
+            <span>
+              Include my browser and device info
+              <span className="block text-slate-500">{describeEnvironment(environment)}</span>
+            </span>
+          </label>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-3 justify-end">
+            <button type="button" onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
+              Cancel
+            </button>
+            <button type="submit" disabled={submitting || uploads.busy || !title.trim() || invalidUrls.length > 0 || incomplete}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition">
+              {(submitting || uploads.busy) && <Loader2 className="w-4 h-4 animate-spin" />}
+              {uploads.busy ? 'Uploading…' : 'Create Issue'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
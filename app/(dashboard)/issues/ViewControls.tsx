@@ -0,0 +1,433 @@
+'use client';
+
+import { useState } from 'react';
+import { usePermissions } from '@/lib/usePermissions';
+import {
+  DEFAULT_VIEW, GROUPING_LABELS, issueListParams, issueViewQuery, savedViewConfig, SORT_LABELS,
+} from '@/lib/issueFilters';
+import type { IssueGrouping, IssueSort, IssueViewConfig } from '@/lib/issueFilters';
+import {
+  createView, deleteView, setDefaultView, setViewPinned, updateView, useSavedViews,
+} from '@/lib/useSavedViews';
+import { downloadFile, fetchIssueExport, issuesCsv, issuesJson } from '@/lib/issueExport';
+import type { KanbanColumn, SavedView, Site } from '@/types';
+import { Bookmark, ChevronDown, Download, Loader2, Pencil, Pin, SlidersHorizontal, Star, Trash2, Users, X } from 'lucide-react';
+
+const menuButton = 'flex items-center gap-1.5 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white hover:border-slate-500 transition';
+const menuPanel = 'absolute right-0 mt-2 z-30 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl shadow-black/50';
+
+function errorText(e: unknown, fallback: string): string {
+  const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+  return typeof d === 'string' ? d : fallback;
+}
+
+// ── Display settings ───────────────────────────────────────────────────────
+
+export function DisplayMenu({ view, columns, onChange }: {
+  view: IssueViewConfig;
+  /** Every board column, in board order. */
+  columns: { col: KanbanColumn; label: string }[];
+  onChange: (patch: Partial<IssueViewConfig>) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const customised = view.sort !== DEFAULT_VIEW.sort || view.group !== DEFAULT_VIEW.group || view.hidden.length > 0;
+  const visible = columns.length - view.hidden.length;
+
+  function toggleColumn(col: KanbanColumn) {
+    onChange({
+      hidden: view.hidden.includes(col) ? view.hidden.filter((c) => c !== col) : [...view.hidden, col],
+    });
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen((o) => !o)} className={menuButton} aria-expanded={open}>
+        <SlidersHorizontal className="w-4 h-4" />
+        Display
+        {customised && <span className="w-1.5 h-1.5 rounded-full bg-blue-400" />}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setOpen(false)} />
+          <div className={`${menuPanel} w-64 p-4 flex flex-col gap-3`}>
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Sort
+              <select value={view.sort} onChange={(e) => onChange({ sort: e.target.value as IssueSort })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
+                {(Object.keys(SORT_LABELS) as IssueSort[]).map((s) => (
+                  <option key={s} value={s}>{SORT_LABELS[s]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              {view.layout === 'kanban' ? 'Swimlanes' : 'Group by'}
+              <select value={view.group} onChange={(e) => onChange({ group: e.target.value as IssueGrouping })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
+                {(Object.keys(GROUPING_LABELS) as IssueGrouping[]).map((g) => (
+                  <option key={g} value={g}>{GROUPING_LABELS[g]}</option>
+                ))}
+              </select>
+            </label>
+
+            {view.layout === 'kanban' && (
+              <fieldset className="flex flex-col gap-1.5">
+                <legend className="text-xs text-slate-400 mb-1">Columns</legend>
+                {columns.map(({ col, label }) => {
+                  const shown = !view.hidden.includes(col);
+                  return (
+                    <label key={col} className="flex items-center gap-2 text-sm text-slate-300">
+                      <input type="checkbox" checked={shown} onChange={() => toggleColumn(col)}
+                        // The board always keeps one column
+                        disabled={shown && visible === 1}
+                        className="accent-blue-500" />
+                      {label}
+                    </label>
+                  );
+                })}
+              </fieldset>
+            )}
+
+            {customised && (
+              <button
+                onClick={() => onChange({ sort: DEFAULT_VIEW.sort, group: DEFAULT_VIEW.group, hidden: [] })}
+                className="self-start text-xs text-slate-400 hover:text-white transition"
+              >
+                Reset display
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ── Save view modal ────────────────────────────────────────────────────────
+
+function SaveViewModal({ editing, query, pinned, isDefault, onClose }: {
+  /** The view being renamed or re-shared; a new view when absent. */
+  editing?: SavedView;
+  /** What a new view will show. */
+  query: string;
+  pinned: boolean;
+  isDefault: boolean;
+  onClose: (saved?: SavedView) => void;
+}) {
+  const [name, setName] = useState(editing?.name ?? '');
+  const [shared, setShared] = useState(editing?.shared ?? false);
+  const [pin, setPin] = useState(pinned);
+  const [makeDefault, setMakeDefault] = useState(isDefault);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    setError('');
+    try {
+      const input = { name: name.trim(), shared, query: editing?.query ?? query };
+      const saved = editing ? await updateView(editing.id, input) : await createView(input);
+      if (pin !== pinned) await setViewPinned(saved.id, pin);
+      if (makeDefault !== isDefault) await setDefaultView(makeDefault ? saved.id : null);
+      onClose(saved);
+    } catch (e) {
+      setError(errorText(e, 'Failed to save the view.'));
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">{editing ? `Edit “${editing.name}”` : 'Save View'}</h2>
+          <button onClick={() => onClose()} className="text-slate-400 hover:text-white transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={submit} className="flex flex-col gap-4">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} required autoFocus maxLength={60}
+              placeholder="e.g. Critical on client sites"
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500" />
+          </div>
+          <label className="flex items-start gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} className="accent-blue-500 mt-0.5" />
+            <span>
+              Share with my team
+              <span className="block text-xs text-slate-500">Everyone on your account can use it; only you can change it.</span>
+            </span>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={pin} onChange={(e) => setPin(e.target.checked)} className="accent-blue-500" />
+            Pin to the sidebar
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={makeDefault} onChange={(e) => setMakeDefault(e.target.checked)} className="accent-blue-500" />
+            Open this view by default
+          </label>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-3 justify-end">
+            <button type="button" onClick={() => onClose()}
+              className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving || !name.trim()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition">
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editing ? 'Save Changes' : 'Save View'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ── Saved views menu ───────────────────────────────────────────────────────
+
+export function SavedViewsMenu({ view, onApply }: {
+  view: IssueViewConfig;
+  onApply: (view: IssueViewConfig) => void;
+}) {
+  const { me } = usePermissions();
+  const { views, prefs, loading } = useSavedViews();
+  const [open, setOpen] = useState(false);
+  // The view last opened from this menu, to offer updating it after edits
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [modal, setModal] = useState<{ editing?: SavedView } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const currentQuery = issueViewQuery(view);
+  const matching = views.find((v) => issueViewQuery(savedViewConfig(v)) === currentQuery);
+  const selected = views.find((v) => v.id === selectedId);
+  const modified = selected && selected !== matching ? selected : undefined;
+  const own = views.filter((v) => v.owner_id === me?.id);
+  const sharedWithMe = views.filter((v) => v.owner_id !== me?.id);
+
+  async function run(id: string, action: () => Promise<unknown>, fallback: string) {
+    setBusyId(id);
+    setError('');
+    try {
+      await action();
+    } catch (e) {
+      setError(errorText(e, fallback));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function apply(saved: SavedView) {
+    setSelectedId(saved.id);
+    setOpen(false);
+    onApply(savedViewConfig(saved));
+  }
+
+  function remove(saved: SavedView) {
+    if (!confirm(`Delete the “${saved.name}” view?${saved.shared ? ' Your team will lose it too.' : ''}`)) return;
+    run(saved.id, () => deleteView(saved.id), 'Failed to delete the view.');
+  }
+
+  function renderRow(saved: SavedView) {
+    const pinned = prefs.pinned_view_ids.includes(saved.id);
+    const isDefault = prefs.default_view_id === saved.id;
+    const mine = saved.owner_id === me?.id;
+    return (
+      <li key={saved.id}
+        className={`flex items-center gap-1 rounded-lg px-2 py-1.5 ${saved === matching ? 'bg-slate-800' : 'hover:bg-slate-800/60'}`}>
+        <button onClick={() => apply(saved)} className="flex-1 min-w-0 flex items-center gap-1.5 text-left text-sm text-slate-200 hover:text-white">
+          <span className="truncate">{saved.name}</span>
+          {saved.shared && mine && <Users className="w-3 h-3 flex-shrink-0 text-slate-500" aria-label="Shared" />}
+        </button>
+        {busyId === saved.id && <Loader2 className="w-3.5 h-3.5 animate-spin text-slate-500" />}
+        <button
+          onClick={() => run(saved.id, () => setViewPinned(saved.id, !pinned), 'Failed to update the sidebar.')}
+          className={`p-1 transition ${pinned ? 'text-blue-400 hover:text-blue-300' : 'text-slate-600 hover:text-white'}`}
+          title={pinned ? 'Unpin from the sidebar' : 'Pin to the sidebar'}
+        >
+          <Pin className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => run(saved.id, () => setDefaultView(isDefault ? null : saved.id), 'Failed to set the default view.')}
+          className={`p-1 transition ${isDefault ? 'text-amber-400 hover:text-amber-300' : 'text-slate-600 hover:text-white'}`}
+          title={isDefault ? 'Stop opening by default' : 'Open by default'}
+        >
+          <Star className="w-3.5 h-3.5" />
+        </button>
+        {mine && (
+          <>
+            <button onClick={() => { setOpen(false); setModal({ editing: saved }); }}
+              className="p-1 text-slate-600 hover:text-white transition" title="Rename or share">
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => remove(saved)}
+              className="p-1 text-slate-600 hover:text-red-400 transition" title="Delete">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+      </li>
+    );
+  }
+
+  return (
+    <div className="relative">
+      {modal && (
+        <SaveViewModal
+          editing={modal.editing}
+          query={currentQuery}
+          pinned={modal.editing ? prefs.pinned_view_ids.includes(modal.editing.id) : false}
+          isDefault={modal.editing ? prefs.default_view_id === modal.editing.id : false}
+          onClose={(saved) => {
+            setModal(null);
+            if (saved) setSelectedId(saved.id);
+          }}
+        />
+      )}
+
+      <button onClick={() => setOpen((o) => !o)} className={menuButton} aria-expanded={open}>
+        <Bookmark className="w-4 h-4" />
+        <span className="max-w-[160px] truncate">
+          {matching?.name ?? (modified ? `${modified.name} (edited)` : 'Views')}
+        </span>
+        <ChevronDown className="w-3.5 h-3.5 text-slate-500" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setOpen(false)} />
+          <div className={`${menuPanel} w-80 p-2`}>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-4 h-4 animate-spin text-slate-500" />
+              </div>
+            ) : (
+              <>
+                {views.length === 0 && (
+                  <p className="px-2 py-3 text-sm text-slate-500">
+                    No saved views yet. Set up the filters and display you want, then save them here.
+                  </p>
+                )}
+                {own.length > 0 && (
+                  <>
+                    <p className="px-2 pt-1 pb-1 text-[10px] font-medium uppercase tracking-wide text-slate-500">My views</p>
+                    <ul>{own.map(renderRow)}</ul>
+                  </>
+                )}
+                {sharedWithMe.length > 0 && (
+                  <>
+                    <p className="px-2 pt-2 pb-1 text-[10px] font-medium uppercase tracking-wide text-slate-500">Shared with me</p>
+                    <ul>{sharedWithMe.map(renderRow)}</ul>
+                  </>
+                )}
+              </>
+            )}
+
+            {error && <p className="px-2 py-1 text-xs text-red-400">{error}</p>}
+
+            <div className="border-t border-slate-800 mt-2 pt-2 flex flex-col">
+              {modified && modified.owner_id === me?.id && (
+                <button
+                  onClick={() => run(modified.id, () => updateView(modified.id, {
+                    name: modified.name, shared: modified.shared, query: currentQuery,
+                  }), 'Failed to update the view.')}
+                  className="px-2 py-1.5 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition truncate"
+                >
+                  Update “{modified.name}” to match
+                </button>
+              )}
+              <button
+                onClick={() => { setOpen(false); setModal({}); }}
+                disabled={!!matching}
+                className="px-2 py-1.5 text-left text-sm text-blue-400 hover:text-blue-300 hover:bg-slate-800 rounded-lg transition disabled:text-slate-600 disabled:hover:bg-transparent"
+                title={matching ? `Already saved as “${matching.name}”` : undefined}
+              >
+                Save current view…
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ── Export ─────────────────────────────────────────────────────────────────
+
+type ExportFormat = 'csv' | 'json';
+
+export function ExportMenu({ view, sites }: {
+  view: IssueViewConfig;
+  sites: Site[];
+}) {
+  const [open, setOpen] = useState(false);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const exporting = progress !== null;
+
+  async function exportAs(format: ExportFormat) {
+    setError('');
+    setProgress({ loaded: 0, total: 0 });
+    try {
+      const { issues, transitions, missingHistory } = await fetchIssueExport(
+        { ...issueListParams(view), sort: view.sort },
+        (loaded, total) => setProgress({ loaded, total }),
+      );
+      const siteNames: Record<string, string> = Object.fromEntries(sites.map((s) => [s.id, s.name ?? s.url]));
+      const filename = `sitedoc-issues-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') {
+        downloadFile(filename, issuesCsv(issues, siteNames, transitions), 'text/csv');
+      } else {
+        downloadFile(filename, issuesJson(issues, siteNames, transitions), 'application/json');
+      }
+      if (missingHistory.length > 0) {
+        setError(`Exported ${issues.length} issues, but the history of ${missingHistory.length} couldn’t be loaded, so their stage times are blank.`);
+      } else {
+        setOpen(false);
+      }
+    } catch (e) {
+      setError(errorText(e, 'Export failed. Please try again.'));
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen((o) => !o)} className={menuButton} aria-expanded={open}>
+        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        Export
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => !exporting && setOpen(false)} />
+          <div className={`${menuPanel} w-72 p-2 flex flex-col`}>
+            <p className="px-2 py-1 text-xs text-slate-500">
+              Every issue matching the current filters, with the time each spent in every column.
+            </p>
+            {(['csv', 'json'] as ExportFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => exportAs(format)}
+                disabled={exporting}
+                className="px-2 py-1.5 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition disabled:opacity-60"
+              >
+                {format === 'csv' ? 'CSV for spreadsheets' : 'JSON, with each ticket’s moves'}
+              </button>
+            ))}
+            {progress && (
+              <p className="px-2 py-1 text-xs text-slate-400 tabular-nums">
+                {progress.total > 0 ? `Loading history ${progress.loaded}/${progress.total}…` : 'Loading issues…'}
+              </p>
+            )}
+            {error && <p className="px-2 py-1 text-xs text-amber-400">{error}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
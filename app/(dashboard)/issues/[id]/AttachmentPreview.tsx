@@ -0,0 +1,439 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import sdk from '@/lib/sdk';
+import { HighlightedCode } from '@/components/Markdown';
+import { languageForPath } from '@/lib/highlight';
+import { summarizeHar, isFailedRequest } from '@/lib/har';
+import type { HarRequest } from '@/lib/har';
+import { attachmentHref, formatBytes } from '@/lib/uploads';
+import type { Attachment } from '@/types';
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  File as FileIcon,
+  FileText,
+  Film,
+  Globe,
+  Image as ImageIcon,
+  Loader2,
+  Maximize2,
+  X,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+
+// Larger text files are previewed from the start; the rest is a download away
+const TEXT_PREVIEW_BYTES = 512 * 1024;
+// The browser chokes on tables much longer than this
+const HAR_MAX_ROWS = 500;
+
+const ZOOM_STEPS = [0.5, 1, 1.5, 2, 3, 4];
+
+export type PreviewKind = 'image' | 'pdf' | 'video' | 'har' | 'text' | 'none';
+
+const TEXT_EXTENSIONS = [
+  'txt', 'log', 'csv', 'md', 'json', 'xml', 'yml', 'yaml', 'ini', 'conf', 'env',
+  'htaccess', 'php', 'js', 'ts', 'css', 'scss', 'html', 'htm', 'sql', 'sh', 'py',
+];
+
+// Logs that servers write without an extension
+const TEXT_FILENAMES = ['error_log', 'php_errorlog', 'access_log'];
+
+export function previewKind(att: Attachment): PreviewKind {
+  const mime = (att.mime_type ?? '').toLowerCase();
+  const name = att.filename.toLowerCase();
+  const ext = name.includes('.') ? name.split('.').pop()! : '';
+
+  if (ext === 'har') return 'har';
+  if (mime.startsWith('image/')) return 'image';
+  if (mime === 'application/pdf' || ext === 'pdf') return 'pdf';
+  if (mime.startsWith('video/')) return 'video';
+  if (
+    mime.startsWith('text/') ||
+    mime === 'application/json' ||
+    TEXT_EXTENSIONS.includes(ext) ||
+    TEXT_FILENAMES.includes(name)
+  ) {
+    return 'text';
+  }
+  return 'none';
+}
+
+const KIND_ICON = {
+  image: ImageIcon,
+  pdf: FileText,
+  video: Film,
+  har: Globe,
+  text: FileText,
+  none: FileIcon,
+};
+
+export function AttachmentIcon({ attachment, className }: { attachment: Attachment; className?: string }) {
+  const Icon = KIND_ICON[previewKind(attachment)];
+  return <Icon className={className} />;
+}
+
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+// ── Image ─────────────────────────────────────────────────────────────────
+
+function ImageViewer({ url, alt }: { url: string; alt: string }) {
+  // null fits the image to the viewport
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [naturalWidth, setNaturalWidth] = useState(0);
+
+  function step(dir: 1 | -1) {
+    const current = zoom ?? 1;
+    const next = dir > 0
+      ? ZOOM_STEPS.find((z) => z > current)
+      : ZOOM_STEPS.slice().reverse().find((z) => z < current);
+    if (next) setZoom(next);
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 min-h-0 overflow-auto flex">
+        {/* Object URLs can't go through next/image's optimizer */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={url}
+          alt={alt}
+          onLoad={(e) => setNaturalWidth(e.currentTarget.naturalWidth)}
+          onClick={() => setZoom(zoom === null ? 2 : null)}
+          style={zoom !== null && naturalWidth ? { width: naturalWidth * zoom, maxWidth: 'none' } : undefined}
+          className={`m-auto ${zoom === null ? 'max-w-full max-h-full object-contain cursor-zoom-in' : 'cursor-zoom-out'}`}
+        />
+      </div>
+      <div className="flex items-center justify-center gap-1 pt-3 text-slate-300">
+        <button type="button" onClick={() => step(-1)} className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition" title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="text-xs w-12 text-center tabular-nums">
+          {zoom === null ? 'Fit' : `${Math.round(zoom * 100)}%`}
+        </span>
+        <button type="button" onClick={() => step(1)} className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition" title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => setZoom(null)} className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition" title="Fit to screen">
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ── Text ──────────────────────────────────────────────────────────────────
+
+function TextViewer({ text, filename, mimeType, truncated }: {
+  text: string;
+  filename: string;
+  mimeType: string | null;
+  truncated: boolean;
+}) {
+  const lang = languageForPath(filename) || (mimeType === 'application/json' ? 'json' : '');
+
+  const code = useMemo(() => {
+    if (lang !== 'json' || truncated) return text;
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }, [text, lang, truncated]);
+
+  const lineCount = code.split('\n').length;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex-1 min-h-0 overflow-auto">
+        <div className="flex min-w-max text-xs leading-5 font-mono">
+          <pre className="select-none text-right text-slate-600 px-3 py-3 border-r border-slate-800 sticky left-0 bg-slate-900">
+            {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+          </pre>
+          <pre className="px-3 py-3 text-slate-200">
+            <code>
+              <HighlightedCode code={code} lang={lang} />
+            </code>
+          </pre>
+        </div>
+      </div>
+      <div className="flex items-center justify-between px-3 py-1.5 border-t border-slate-800 text-[10px] text-slate-500">
+        <span className="font-mono">{lang || 'text'}</span>
+        <span>
+          {lineCount.toLocaleString()} line{lineCount !== 1 ? 's' : ''}
+          {truncated && ` · showing the first ${formatBytes(TEXT_PREVIEW_BYTES)} — download for the rest`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// ── HAR ───────────────────────────────────────────────────────────────────
+
+function statusClass(r: HarRequest): string {
+  if (isFailedRequest(r)) return 'text-red-400';
+  if (r.status >= 300) return 'text-amber-300';
+  return 'text-green-400';
+}
+
+function HarViewer({ text, filename }: { text: string; filename: string }) {
+  const summary = useMemo(() => {
+    try {
+      return summarizeHar(text);
+    } catch {
+      return null;
+    }
+  }, [text]);
+  const [failedOnly, setFailedOnly] = useState(false);
+
+  if (!summary) {
+    return <TextViewer text={text} filename={filename} mimeType="application/json" truncated={false} />;
+  }
+
+  const rows = failedOnly ? summary.requests.filter(isFailedRequest) : summary.requests;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-2 px-4 py-3 border-b border-slate-800 text-sm">
+        <span className="text-slate-300"><strong className="text-white">{summary.requests.length}</strong> requests</span>
+        <span className={summary.failed > 0 ? 'text-red-400' : 'text-slate-300'}>
+          <strong className={summary.failed > 0 ? 'text-red-300' : 'text-white'}>{summary.failed}</strong> failed
+        </span>
+        <span className="text-slate-300"><strong className="text-white">{formatBytes(summary.totalBytes)}</strong> transferred</span>
+        <span className="text-slate-300"><strong className="text-white">{formatMs(summary.duration)}</strong> total</span>
+        {summary.creator && <span className="text-xs text-slate-500">Recorded with {summary.creator}</span>}
+        <label className="ml-auto flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={failedOnly}
+            onChange={(e) => setFailedOnly(e.target.checked)}
+            className="accent-blue-500"
+          />
+          Failed only
+        </label>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-900 text-slate-500 text-left">
+            <tr>
+              <th className="font-medium px-3 py-2 w-14">Status</th>
+              <th className="font-medium px-3 py-2 w-16">Method</th>
+              <th className="font-medium px-3 py-2">URL</th>
+              <th className="font-medium px-3 py-2 w-32">Type</th>
+              <th className="font-medium px-3 py-2 w-20 text-right">Size</th>
+              <th className="font-medium px-3 py-2 w-20 text-right">Time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {rows.slice(0, HAR_MAX_ROWS).map((r, i) => (
+              <tr key={i} className={isFailedRequest(r) ? 'bg-red-500/5' : ''}>
+                <td className={`px-3 py-1.5 font-mono ${statusClass(r)}`} title={r.statusText}>
+                  {r.status || '—'}
+                </td>
+                <td className="px-3 py-1.5 font-mono text-slate-300">{r.method}</td>
+                <td className="px-3 py-1.5 text-slate-200 max-w-0 truncate" title={r.url}>{r.url}</td>
+                <td className="px-3 py-1.5 text-slate-400 truncate max-w-[8rem]">{r.mimeType || '—'}</td>
+                <td className="px-3 py-1.5 text-slate-400 text-right tabular-nums">
+                  {r.size >= 0 ? formatBytes(r.size) : '—'}
+                </td>
+                <td className="px-3 py-1.5 text-slate-400 text-right tabular-nums">{formatMs(r.time)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="text-slate-500 text-sm text-center py-8">No failed requests.</p>
+        )}
+        {rows.length > HAR_MAX_ROWS && (
+          <p className="text-slate-500 text-xs text-center py-3">
+            Showing the first {HAR_MAX_ROWS} of {rows.length} requests.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ── Viewer ────────────────────────────────────────────────────────────────
+
+type Content =
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'ready'; url?: string; text?: string; truncated?: boolean };
+
+/**
+ * Full-screen preview of one attachment, with arrows to step through the
+ * rest. Contents are fetched through the API client so the session's
+ * credentials apply, then shown from an object URL or as text.
+ */
+export function AttachmentPreview({ attachments, index, onNavigate, onClose }: {
+  attachments: Attachment[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}) {
+  const attachment = attachments[index];
+  const kind = previewKind(attachment);
+  const [content, setContent] = useState<Content>({ status: 'loading' });
+
+  useEffect(() => {
+    if (kind === 'none') return;
+    const controller = new AbortController();
+    let url: string | null = null;
+    setContent({ status: 'loading' });
+
+    sdk.issues.downloadAttachment(attachment, controller.signal)
+      .then(async (blob) => {
+        if (controller.signal.aborted) return;
+        if (kind === 'text' || kind === 'har') {
+          // A truncated HAR wouldn't parse, so it's read whole
+          const truncated = kind === 'text' && blob.size > TEXT_PREVIEW_BYTES;
+          const text = await (truncated ? blob.slice(0, TEXT_PREVIEW_BYTES) : blob).text();
+          if (!controller.signal.aborted) setContent({ status: 'ready', text, truncated });
+        } else {
+          // Some servers send PDFs as octet-stream, which the browser would download instead
+          url = URL.createObjectURL(kind === 'pdf' ? new Blob([blob], { type: 'application/pdf' }) : blob);
+          setContent({ status: 'ready', url });
+        }
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setContent({ status: 'error' });
+      });
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, kind]);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && index > 0) onNavigate(index - 1);
+      else if (e.key === 'ArrowRight' && index < attachments.length - 1) onNavigate(index + 1);
+    }
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, attachments.length, onNavigate, onClose]);
+
+  function body() {
+    if (kind === 'none') {
+      return (
+        <div className="flex flex-col items-center justify-center h-full gap-3 text-slate-400">
+          <FileIcon className="w-10 h-10 text-slate-600" />
+          <p className="text-sm">There&apos;s no preview for this file type.</p>
+          <a
+            href={attachmentHref(attachment)}
+            download={attachment.filename}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold px-4 py-2 rounded-lg transition"
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </a>
+        </div>
+      );
+    }
+    if (content.status === 'loading') {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+        </div>
+      );
+    }
+    if (content.status === 'error') {
+      return (
+        <div className="flex flex-col items-center justify-center h-full gap-2 text-slate-400">
+          <AlertCircle className="w-8 h-8 text-red-400" />
+          <p className="text-sm">Couldn&apos;t load this file for preview.</p>
+        </div>
+      );
+    }
+    switch (kind) {
+      case 'image':
+        return <ImageViewer key={attachment.id} url={content.url!} alt={attachment.filename} />;
+      case 'pdf':
+        return <iframe src={content.url} title={attachment.filename} className="w-full h-full rounded-xl bg-white" />;
+      case 'video':
+        return (
+          <div className="flex h-full">
+            <video src={content.url} controls className="m-auto max-w-full max-h-full rounded-xl" />
+          </div>
+        );
+      case 'har':
+        return <HarViewer text={content.text!} filename={attachment.filename} />;
+      case 'text':
+        return (
+          <TextViewer
+            text={content.text!}
+            filename={attachment.filename}
+            mimeType={attachment.mime_type}
+            truncated={!!content.truncated}
+          />
+        );
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex flex-col p-4 sm:p-6"
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Preview of ${attachment.filename}`}
+    >
+      <div className="flex items-center gap-3 pb-3 text-slate-300">
+        <AttachmentIcon attachment={attachment} className="w-4 h-4 text-slate-500 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white font-medium truncate">{attachment.filename}</p>
+          <p className="text-xs text-slate-500">
+            {formatBytes(attachment.size_bytes)}
+            {attachments.length > 1 && ` · ${index + 1} of ${attachments.length}`}
+          </p>
+        </div>
+        <a
+          href={attachmentHref(attachment)}
+          download={attachment.filename}
+          className="p-2 hover:text-white hover:bg-slate-800 rounded-lg transition"
+          title="Download"
+        >
+          <Download className="w-4 h-4" />
+        </a>
+        <button type="button" onClick={onClose} className="p-2 hover:text-white hover:bg-slate-800 rounded-lg transition" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-stretch gap-2">
+        {attachments.length > 1 && (
+          <button
+            type="button"
+            onClick={() => onNavigate(index - 1)}
+            disabled={index === 0}
+            className="self-center p-2 text-slate-400 hover:text-white disabled:opacity-20 transition"
+            title="Previous"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+        )}
+        <div className="flex-1 min-w-0">{body()}</div>
+        {attachments.length > 1 && (
+          <button
+            type="button"
+            onClick={() => onNavigate(index + 1)}
+            disabled={index === attachments.length - 1}
+            className="self-center p-2 text-slate-400 hover:text-white disabled:opacity-20 transition"
+            title="Next"
+          >
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+'use client';
+
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import sdk from '@/lib/sdk';
+import { parseUnifiedDiff, toSplitRows } from '@/lib/diff';
+import type { DiffLine } from '@/lib/diff';
+import { languageForPath } from '@/lib/highlight';
+import { HighlightedCode } from '@/components/Markdown';
+import type { ChatMessage, DatabaseChange, FileChange, FileChangeArea, IssueChanges } from '@/types';
+import {
+  ChevronDown,
+  ChevronRight,
+  Columns2,
+  Database,
+  FileCode,
+  Loader2,
+  MessageSquarePlus,
+  Rows2,
+} from 'lucide-react';
+
+// Files with more diff lines than this start collapsed
+const AUTO_COLLAPSE_LINES = 300;
+
+const AREA_LABEL: Record<FileChangeArea, string> = {
+  theme: 'Theme',
+  plugin: 'Plugin',
+  config: 'Configuration',
+  core: 'WordPress core',
+  other: 'Other',
+};
+
+const AREA_ORDER: FileChangeArea[] = ['config', 'theme', 'plugin', 'core', 'other'];
+
+const STATUS_STYLE: Record<FileChange['status'], string> = {
+  added: 'text-green-300 bg-green-500/10 border-green-600/30',
+  modified: 'text-blue-300 bg-blue-500/10 border-blue-600/30',
+  deleted: 'text-red-300 bg-red-500/10 border-red-600/30',
+  renamed: 'text-purple-300 bg-purple-500/10 border-purple-600/30',
+};
+
+const DB_OPERATION_LABEL: Record<DatabaseChange['operation'], string> = {
+  insert: 'Inserted',
+  update: 'Updated',
+  delete: 'Deleted',
+  schema: 'Schema change',
+};
+
+const LINE_BG: Record<DiffLine['kind'], string> = {
+  context: '',
+  add: 'bg-green-500/10',
+  del: 'bg-red-500/10',
+};
+
+const LINE_MARKER: Record<DiffLine['kind'], string> = {
+  context: ' ',
+  add: '+',
+  del: '-',
+};
+
+type Side = 'old' | 'new';
+
+interface CommentTarget {
+  path: string;
+  line: DiffLine;
+  side: Side;
+}
+
+function lineNumber(line: DiffLine, side: Side): number | null {
+  return side === 'old' ? line.oldNo : line.newNo;
+}
+
+// Comments on removed lines refer to the old file, everything else to the new one
+function sideOf(line: DiffLine): Side {
+  return line.kind === 'del' ? 'old' : 'new';
+}
+
+function commentKey(path: string, line: DiffLine, side: Side): string {
+  return `${path}:${side}:${lineNumber(line, side)}`;
+}
+
+// ── Line comment form ─────────────────────────────────────────────────────
+
+function LineCommentForm({ target, issueId, onPosted, onCancel }: {
+  target: CommentTarget;
+  issueId: string;
+  onPosted: (msg: ChatMessage) => void;
+  onCancel: () => void;
+}) {
+  const [text, setText] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState('');
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!text.trim() || posting) return;
+    setPosting(true);
+    setError('');
+    const n = lineNumber(target.line, target.side);
+    const where = `${target.path}, line ${n}${target.side === 'old' ? ' (before the change)' : ''}`;
+    try {
+      const msg = await sdk.issues.sendMessage(issueId, {
+        content: `Comment on ${where}:\n> ${target.line.text.trim()}\n\n${text.trim()}`,
+      });
+      onPosted(msg);
+    } catch {
+      setError('Failed to post comment. Please try again.');
+      setPosting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="p-3 bg-slate-800 border-y border-slate-700 font-sans">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={3}
+        autoFocus
+        placeholder="Ask the agent about this line…"
+        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none focus:outline-none focus:border-blue-500"
+      />
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      <div className="flex justify-end gap-2 mt-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-400 hover:text-white transition">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!text.trim() || posting}
+          className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-xs font-semibold px-3 py-1.5 rounded-lg transition"
+        >
+          {posting && <Loader2 className="w-3 h-3 animate-spin" />}
+          Send to Agent
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// ── File diff ─────────────────────────────────────────────────────────────
+
+function FileDiff({ file, view, open, onToggle, issueId, onComment }: {
+  file: FileChange;
+  view: 'unified' | 'split';
+  open: boolean;
+  onToggle: () => void;
+  issueId: string;
+  onComment: (msg: ChatMessage) => void;
+}) {
+  const hunks = useMemo(() => parseUnifiedDiff(file.diff), [file.diff]);
+  const lang = languageForPath(file.path);
+  const [target, setTarget] = useState<CommentTarget | null>(null);
+  const [posted, setPosted] = useState<Record<string, number>>({});
+
+  function handlePosted(msg: ChatMessage) {
+    if (target) {
+      const key = commentKey(target.path, target.line, target.side);
+      setPosted((prev) => ({ ...prev, [key]: (prev[key] ?? 0) + 1 }));
+    }
+    setTarget(null);
+    onComment(msg);
+  }
+
+  function isTarget(line: DiffLine, side: Side) {
+    return !!target && target.side === side && lineNumber(target.line, side) === lineNumber(line, side);
+  }
+
+  function commentButton(line: DiffLine, side: Side) {
+    const count = posted[commentKey(file.path, line, side)];
+    return (
+      <button
+        type="button"
+        onClick={() => setTarget({ path: file.path, line, side })}
+        className={`absolute left-0.5 top-0.5 p-0.5 rounded text-blue-300 hover:bg-blue-600 hover:text-white transition ${
+          count ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+        }`}
+        title={count ? `${count} comment${count !== 1 ? 's' : ''} sent — add another` : 'Comment on this line'}
+      >
+        <MessageSquarePlus className="w-3 h-3" />
+      </button>
+    );
+  }
+
+  function gutter(n: number | null) {
+    return (
+      <td className="w-10 px-2 text-right text-slate-600 select-none align-top tabular-nums">
+        {n ?? ''}
+      </td>
+    );
+  }
+
+  function codeCell(line: DiffLine | null, side: Side) {
+    if (!line) return <td className="bg-slate-800/40" />;
+    return (
+      <td className={`relative pl-6 pr-3 whitespace-pre align-top ${LINE_BG[line.kind]}`}>
+        {commentButton(line, side)}
+        <span className="text-slate-500 select-none">{LINE_MARKER[line.kind]}</span>
+        <HighlightedCode code={line.text} lang={lang} />
+      </td>
+    );
+  }
+
+  const commentRow = (colSpan: number) =>
+    target && (
+      <tr>
+        <td colSpan={colSpan} className="p-0">
+          <LineCommentForm
+            target={target}
+            issueId={issueId}
+            onPosted={handlePosted}
+            onCancel={() => setTarget(null)}
+          />
+        </td>
+      </tr>
+    );
+
+  return (
+    <div className="border border-slate-700 rounded-lg overflow-hidden">
+      <button
+        type="button"
+        onClick={onToggle}
+        className="w-full flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700/60 text-left transition"
+      >
+        {open ? <ChevronDown className="w-4 h-4 text-slate-500" /> : <ChevronRight className="w-4 h-4 text-slate-500" />}
+        <FileCode className="w-4 h-4 text-slate-400 flex-shrink-0" />
+        <span className="text-sm text-slate-200 font-mono truncate">
+          {file.old_path && file.old_path !== file.path ? `${file.old_path} → ${file.path}` : file.path}
+        </span>
+        <span className={`text-[10px] px-1.5 py-0.5 rounded border flex-shrink-0 ${STATUS_STYLE[file.status]}`}>
+          {file.status}
+        </span>
+        <span className="ml-auto text-xs tabular-nums flex-shrink-0">
+          <span className="text-green-400">+{file.additions}</span>{' '}
+          <span className="text-red-400">−{file.deletions}</span>
+        </span>
+      </button>
+
+      {open && (
+        hunks.length === 0 ? (
+          <p className="px-4 py-3 text-xs text-slate-500 border-t border-slate-700">
+            Binary file or no line changes to show.
+          </p>
+        ) : (
+          <div className="overflow-x-auto border-t border-slate-700 bg-slate-900">
+            <table className="w-full text-xs font-mono leading-5 border-collapse">
+              <tbody>
+                {hunks.map((hunk, h) => (
+                  <Fragment key={h}>
+                    <tr className="bg-blue-500/5 text-slate-500">
+                      <td colSpan={view === 'unified' ? 3 : 4} className="px-3 py-1">
+                        @@ {hunk.header}
+                      </td>
+                    </tr>
+                    {view === 'unified'
+                      ? hunk.lines.map((line, i) => (
+                          <Fragment key={i}>
+                            <tr className="group">
+                              {gutter(line.oldNo)}
+                              {gutter(line.newNo)}
+                              {codeCell(line, sideOf(line))}
+                            </tr>
+                            {isTarget(line, sideOf(line)) && commentRow(3)}
+                          </Fragment>
+                        ))
+                      : toSplitRows(hunk.lines).map((row, i) => (
+                          <Fragment key={i}>
+                            <tr className="group">
+                              {gutter(row.left?.oldNo ?? null)}
+                              {codeCell(row.left, 'old')}
+                              {gutter(row.right?.newNo ?? null)}
+                              {codeCell(row.right, 'new')}
+                            </tr>
+                            {((row.left && isTarget(row.left, 'old')) ||
+                              (row.right && isTarget(row.right, 'new'))) &&
+                              commentRow(4)}
+                          </Fragment>
+                        ))}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+// ── Panel ─────────────────────────────────────────────────────────────────
+
+export default function ChangesPanel({ issueId, active, refreshKey, onComment }: {
+  issueId: string;
+  /** The panel only fetches once its tab has been opened. */
+  active: boolean;
+  /** Changes whenever the fix may have changed (e.g. the issue's status). */
+  refreshKey: string;
+  onComment: (msg: ChatMessage) => void;
+}) {
+  const [changes, setChanges] = useState<IssueChanges | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [view, setView] = useState<'unified' | 'split'>('unified');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [opened, setOpened] = useState(false);
+
+  useEffect(() => {
+    if (active) setOpened(true);
+  }, [active]);
+
+  useEffect(() => {
+    if (!opened) return;
+    setError('');
+    sdk.issues.getChanges(issueId)
+      .then((data) => {
+        setChanges(data);
+        setCollapsed(new Set(
+          data.files
+            .filter((f) => f.additions + f.deletions > AUTO_COLLAPSE_LINES)
+            .map((f) => f.path)
+        ));
+      })
+      .catch((e: unknown) => {
+        const status = (e as { response?: { status?: number } })?.response?.status;
+        // 404 just means the Dev agent hasn't produced anything yet
+        if (status === 404) setChanges(null);
+        else setError('Failed to load changes. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [issueId, opened, refreshKey]);
+
+  const files = useMemo(
+    () => [...(changes?.files ?? [])].sort(
+      (a, b) => AREA_ORDER.indexOf(a.area) - AREA_ORDER.indexOf(b.area) || a.path.localeCompare(b.path)
+    ),
+    [changes]
+  );
+
+  function toggle(path: string) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-sm text-red-400 bg-red-900/20 border border-red-700 rounded-lg px-4 py-2">{error}</div>
+    );
+  }
+
+  if (!changes || (files.length === 0 && changes.database.length === 0)) {
+    return (
+      <p className="text-slate-500 text-sm text-center py-16">
+        No changes yet. Once the Dev agent prepares a fix, every file it touches shows up here.
+      </p>
+    );
+  }
+
+  const additions = files.reduce((n, f) => n + f.additions, 0);
+  const deletions = files.reduce((n, f) => n + f.deletions, 0);
+  let lastArea: FileChangeArea | null = null;
+
+  return (
+    <div className="space-y-4">
+      {/* Summary + controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span
+          className={`text-xs px-2.5 py-1 rounded-full font-medium border ${
+            changes.applied
+              ? 'bg-green-500/10 text-green-300 border-green-600/30'
+              : 'bg-amber-500/10 text-amber-300 border-amber-600/30'
+          }`}
+        >
+          {changes.applied ? 'Applied to your site' : 'Proposed — not applied yet'}
+        </span>
+        <span className="text-xs text-slate-400">
+          {files.length} file{files.length !== 1 ? 's' : ''} changed{' '}
+          <span className="text-green-400">+{additions}</span>{' '}
+          <span className="text-red-400">−{deletions}</span>
+        </span>
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={() => setCollapsed(collapsed.size > 0 ? new Set() : new Set(files.map((f) => f.path)))}
+          className="text-xs text-slate-400 hover:text-white transition"
+        >
+          {collapsed.size > 0 ? 'Expand all' : 'Collapse all'}
+        </button>
+        <div className="flex bg-slate-800 border border-slate-700 rounded-lg p-1">
+          <button
+            onClick={() => setView('unified')}
+            className={`p-1.5 rounded transition ${view === 'unified' ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            title="Unified view"
+          >
+            <Rows2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setView('split')}
+            className={`p-1.5 rounded transition ${view === 'split' ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            title="Split view"
+          >
+            <Columns2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Database */}
+      {changes.database.length > 0 && (
+        <div className="border border-slate-700 rounded-lg">
+          <div className="flex items-center gap-2 px-3 py-2 bg-slate-800 rounded-t-lg">
+            <Database className="w-4 h-4 text-slate-400" />
+            <span className="text-sm text-slate-200 font-medium">Database</span>
+          </div>
+          <ul className="divide-y divide-slate-700/50">
+            {changes.database.map((c, i) => (
+              <li key={i} className="px-4 py-2.5 flex items-start gap-3 text-xs">
+                <span className="font-mono text-slate-300 w-40 truncate flex-shrink-0">{c.table}</span>
+                <span className="text-slate-400 flex-shrink-0">
+                  {DB_OPERATION_LABEL[c.operation]}
+                  {c.operation !== 'schema' && ` · ${c.rows_affected} row${c.rows_affected !== 1 ? 's' : ''}`}
+                </span>
+                <span className="text-slate-500 flex-1">{c.summary}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Files, grouped by area */}
+      {files.map((file) => {
+        const heading = file.area !== lastArea ? AREA_LABEL[file.area] : null;
+        lastArea = file.area;
+        return (
+          <Fragment key={file.path}>
+            {heading && (
+              <h3 className="text-slate-400 font-medium text-xs uppercase tracking-wide pt-1">{heading}</h3>
+            )}
+            <FileDiff
+              file={file}
+              view={view}
+              open={!collapsed.has(file.path)}
+              onToggle={() => toggle(file.path)}
+              issueId={issueId}
+              onComment={onComment}
+            />
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+}
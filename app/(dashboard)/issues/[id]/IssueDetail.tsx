@@ -2,9 +2,34 @@
 
 import { useEffect, useRef, useState, useCallback, UIEvent } from 'react';
 import Link from 'next/link';
-import api from '@/lib/api';
-import { getToken } from '@/lib/auth';
-import type { Issue, ChatMessage, AgentAction, WsEvent, KanbanColumn } from '@/types';
+import sdk from '@/lib/sdk';
+import { RealtimeStatus, useConnectionState, useRealtimeChannel } from '@/components/RealtimeProvider';
+import { KANBAN_LABELS, KanbanBadge } from '@/components/KanbanBadge';
+import { Markdown } from '@/components/Markdown';
+import ChangesPanel from './ChangesPanel';
+import { ApproveDialog, RejectDialog, REJECTION_CATEGORY_LABEL } from '@/components/FeedbackDialogs';
+import { AttachmentIcon, AttachmentPreview, previewKind } from './AttachmentPreview';
+import { ScreenshotAnnotator } from '@/components/ScreenshotAnnotator';
+import { describeEnvironment } from '@/lib/environment';
+import { safeHref } from '@/lib/markdown';
+import { approvalTransition, rejectionTransition } from '@/lib/transitions';
+import { KANBAN_COLUMN_ORDER } from '@/lib/issueFilters';
+import { stageDurations } from '@/lib/issueExport';
+import { UploadQueue } from '@/components/UploadQueue';
+import { useUploadQueue } from '@/lib/useUploadQueue';
+import { attachmentHref, formatBytes, MAX_ATTACHMENT_BYTES, nameClipboardFile } from '@/lib/uploads';
+import type {
+  Issue,
+  ChatMessage,
+  AgentAction,
+  Attachment,
+  TicketTransition,
+  WsEvent,
+  KanbanColumn,
+  RollbackRequest,
+  ApproveFixRequest,
+  RejectFixRequest,
+} from '@/types';
 import {
   AlertCircle,
   ArrowDown,
@@ -13,9 +38,14 @@ import {
   ChevronRight,
   Clock,
   Download,
+  Eye,
+  History,
   Loader2,
   Paperclip,
+  PenLine,
+  RotateCcw,
   Send,
+  Star,
   Trash2,
   Upload,
   X,
@@ -25,65 +55,13 @@ import {
   ThumbsDown,
 } from 'lucide-react';
 
-// ── Attachment types ──────────────────────────────────────────────────────
-
-interface Attachment {
-  id: string;
-  issue_id: string;
-  filename: string;
-  mime_type: string | null;
-  size_bytes: number | null;
-  uploaded_by: string;
-  created_at: string;
-  download_url: string;
-}
-
-function formatBytes(bytes: number | null): string {
-  if (bytes == null) return '—';
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
-
 // ── Kanban stage display ──────────────────────────────────────────────────
 
-const KANBAN_LABELS: Record<KanbanColumn, string> = {
-  triage: 'Triage',
-  ready_for_uat_approval: 'Ready for Approval',
-  todo: 'Queued for Dev',
-  in_progress: 'In Progress',
-  ready_for_qa: 'Ready for QA',
-  in_qa: 'QA in Progress',
-  ready_for_uat: 'Ready for Your Review',
-  done: 'Done',
-  dismissed: 'Dismissed',
-};
-
-const KANBAN_COLORS: Record<KanbanColumn, string> = {
-  triage: 'bg-slate-500/10 text-slate-300 border border-slate-600/30',
-  ready_for_uat_approval: 'bg-amber-500/10 text-amber-300 border border-amber-600/30',
-  todo: 'bg-yellow-500/10 text-yellow-300 border border-yellow-600/30',
-  in_progress: 'bg-blue-500/10 text-blue-300 border border-blue-600/30',
-  ready_for_qa: 'bg-purple-500/10 text-purple-300 border border-purple-600/30',
-  in_qa: 'bg-purple-500/10 text-purple-300 border border-purple-600/30',
-  ready_for_uat: 'bg-orange-500/10 text-orange-300 border border-orange-600/30',
-  done: 'bg-green-500/10 text-green-300 border border-green-600/30',
-  dismissed: 'bg-slate-500/10 text-slate-400 border border-slate-600/30',
-};
-
 const PIPELINE_STAGES: KanbanColumn[] = [
   'triage', 'ready_for_uat_approval', 'todo', 'in_progress',
   'ready_for_qa', 'in_qa', 'ready_for_uat', 'done',
 ];
 
-function KanbanBadge({ col }: { col: KanbanColumn }) {
-  return (
-    <span className={`inline-block text-xs px-2.5 py-1 rounded-full font-medium ${KANBAN_COLORS[col]}`}>
-      {KANBAN_LABELS[col]}
-    </span>
-  );
-}
-
 function PipelineProgress({ col }: { col: KanbanColumn }) {
   const current = PIPELINE_STAGES.indexOf(col);
   if (current === -1) return null;
@@ -168,6 +146,167 @@ function AgentStatusIndicator({
   );
 }
 
+// ── Transition timeline ───────────────────────────────────────────────────
+
+function actorLabel(t: TicketTransition): string {
+  if (AGENT_LABEL[t.actor_type]) return AGENT_LABEL[t.actor_type];
+  if (t.actor_type === 'agent') return (t.actor_id && AGENT_LABEL[t.actor_id]) || 'Agent';
+  if (t.actor_type === 'user' || t.actor_type === 'customer') return 'You';
+  if (t.actor_type === 'admin' || t.actor_type === 'staff') return 'SiteDoc team';
+  if (t.actor_type === 'system') return 'System';
+  return t.actor_type;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60_000));
+  if (minutes < 1) return 'under a minute';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ${hours % 24}h`;
+}
+
+// A move to an earlier pipeline stage, e.g. QA sending a fix back to dev
+function isBounce(t: TicketTransition): boolean {
+  if (!t.from_col) return false;
+  const from = PIPELINE_STAGES.indexOf(t.from_col);
+  const to = PIPELINE_STAGES.indexOf(t.to_col);
+  return from !== -1 && to !== -1 && to < from;
+}
+
+function FeedbackSummary({ feedback, attachments }: {
+  feedback: NonNullable<TicketTransition['feedback']>;
+  attachments: Attachment[];
+}) {
+  const screenshots = (feedback.attachment_ids ?? [])
+    .map((id) => attachments.find((a) => a.id === id))
+    .filter((a): a is Attachment => !!a);
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-1.5">
+      {feedback.category && (
+        <span className="text-[10px] text-red-300 bg-red-900/20 border border-red-600/30 px-1.5 py-0.5 rounded">
+          {REJECTION_CATEGORY_LABEL[feedback.category]}
+        </span>
+      )}
+      {feedback.rating != null && (
+        <span className="flex items-center gap-0.5" title={`${feedback.rating}/5`}>
+          {[1, 2, 3, 4, 5].map((n) => (
+            <Star
+              key={n}
+              className={`w-3 h-3 ${n <= (feedback.rating ?? 0) ? 'text-amber-400 fill-amber-400' : 'text-slate-600'}`}
+            />
+          ))}
+        </span>
+      )}
+      {screenshots.map((a) => (
+        <a
+          key={a.id}
+          href={attachmentHref(a)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300 transition"
+        >
+          <Paperclip className="w-3 h-3" />
+          {a.filename}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// Totals per column, worked out as the CSV export does
+function TimePerColumn({ issue, transitions, now }: {
+  issue: Issue;
+  transitions: TicketTransition[];
+  now: number;
+}) {
+  const durations = stageDurations(issue, transitions, now);
+  const columns = KANBAN_COLUMN_ORDER.filter((col) => durations[col]);
+  if (columns.length === 0) return null;
+  return (
+    <dl className="flex flex-wrap gap-2 mt-3">
+      {columns.map((col) => (
+        <div key={col} className="flex items-center gap-1.5 text-[11px] bg-slate-700/40 rounded-lg px-2 py-1">
+          <dt className="text-slate-400">{KANBAN_LABELS[col]}</dt>
+          <dd className="text-white tabular-nums">{formatDuration(durations[col] ?? 0)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function TransitionTimeline({ issue, transitions, attachments }: {
+  issue: Issue;
+  transitions: TicketTransition[];
+  attachments: Attachment[];
+}) {
+  const sorted = [...transitions].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const now = Date.now();
+
+  if (sorted.length === 0) {
+    return (
+      <>
+        <TimePerColumn issue={issue} transitions={sorted} now={now} />
+        <p className="text-slate-500 text-sm text-center py-6">No moves yet.</p>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <TimePerColumn issue={issue} transitions={sorted} now={now} />
+      <ol className="relative mt-4 ml-2 border-l border-slate-700 space-y-4">
+        {sorted.map((t, idx) => {
+          const next = sorted[idx + 1];
+          const enteredAt = new Date(t.created_at).getTime();
+          const leftAt = next ? new Date(next.created_at).getTime() : now;
+          const bounced = isBounce(t);
+          return (
+            <li key={t.id} className="ml-4">
+              <span
+                className={`absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full border-2 border-slate-800 ${
+                  bounced ? 'bg-red-400' : next ? 'bg-green-400' : 'bg-blue-400'
+                }`}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                {t.from_col && (
+                  <>
+                    <span className="text-xs text-slate-500">{KANBAN_LABELS[t.from_col]}</span>
+                    <ArrowRight className="w-3 h-3 text-slate-600" />
+                  </>
+                )}
+                <KanbanBadge col={t.to_col} />
+                {bounced && (
+                  <span className="text-[10px] text-red-400 bg-red-900/20 border border-red-600/30 px-1.5 py-0.5 rounded">
+                    sent back
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-slate-400 mt-1">
+                {actorLabel(t)} · {new Date(t.created_at).toLocaleString()}
+              </p>
+              {t.note && (
+                <p className={`text-xs mt-1.5 rounded-lg px-3 py-2 whitespace-pre-wrap break-words ${
+                  bounced ? 'bg-red-900/10 border border-red-700/30 text-red-200' : 'bg-slate-700/40 text-slate-300'
+                }`}>
+                  {t.note}
+                </p>
+              )}
+              {t.feedback && <FeedbackSummary feedback={t.feedback} attachments={attachments} />}
+              <p className="text-[10px] text-slate-500 mt-1">
+                {next ? 'Spent' : 'Here for'} {formatDuration(leftAt - enteredAt)} in {KANBAN_LABELS[t.to_col]}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </>
+  );
+}
+
 interface Props {
   issue: Issue;
 }
@@ -193,15 +332,125 @@ function ActionStatusIcon({ status }: { status: string }) {
   return <Clock className="w-4 h-4 text-yellow-400 flex-shrink-0 animate-pulse" />;
 }
 
+function ActionItem({ action, idx }: { action: AgentAction; idx: number }) {
+  return (
+    <li
+      className={`flex items-start gap-3 rounded-lg p-3 transition-colors ${
+        action.status === 'in_progress'
+          ? 'bg-blue-500/10 border border-blue-600/20'
+          : action.status === 'completed'
+          ? 'bg-green-500/5 border border-green-600/10'
+          : action.status === 'failed'
+          ? 'bg-red-500/10 border border-red-600/20'
+          : 'bg-slate-700/40'
+      }`}
+    >
+      {/* Step number */}
+      <span className="text-xs text-slate-500 font-mono w-5 flex-shrink-0 mt-0.5">
+        {String(idx + 1).padStart(2, '0')}
+      </span>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <ActionStatusIcon status={action.status} />
+          <span className="text-xs font-medium text-slate-300 truncate">
+            {action.action_type}
+          </span>
+        </div>
+        <p className="text-xs text-slate-400 mt-1 leading-relaxed">
+          {action.description}
+        </p>
+        {action.status === 'failed' && action.error_detail && (
+          <p className="text-xs text-red-400 mt-1 leading-relaxed">
+            {action.error_detail}
+          </p>
+        )}
+      </div>
+      <span
+        className={`text-[10px] font-medium flex-shrink-0 ${
+          action.status === 'completed'
+            ? 'text-green-400'
+            : action.status === 'failed'
+            ? 'text-red-400'
+            : action.status === 'in_progress'
+            ? 'text-blue-400'
+            : 'text-yellow-400'
+        }`}
+      >
+        {action.status.replace('_', ' ')}
+      </span>
+    </li>
+  );
+}
+
+// ── Rollback ──────────────────────────────────────────────────────────────
+
+function RollbackModal({ onCancel, onConfirm, submitting, error }: {
+  onCancel: () => void;
+  onConfirm: (body: RollbackRequest) => void;
+  submitting: boolean;
+  error: string;
+}) {
+  const [reason, setReason] = useState('');
+  const [reopenTo, setReopenTo] = useState<RollbackRequest['reopen_to']>('todo');
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (reason.trim()) onConfirm({ reason: reason.trim(), reopen_to: reopenTo });
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md p-6">
+        <h2 className="text-lg font-bold text-white mb-1">Roll back this fix</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          The agent restores the files and database rows the fix changed, then reopens the ticket.
+        </p>
+        <form onSubmit={submit} className="flex flex-col gap-4">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">What went wrong?</label>
+            <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} required autoFocus
+              placeholder="e.g. Checkout page shows a blank screen since the fix"
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none" />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Afterwards</label>
+            <select value={reopenTo} onChange={(e) => setReopenTo(e.target.value as RollbackRequest['reopen_to'])}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
+              <option value="todo">Send back to the Dev agent for another attempt</option>
+              <option value="triage">Re-diagnose from scratch</option>
+            </select>
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-3 justify-end">
+            <button type="button" onClick={onCancel}
+              className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
+              Cancel
+            </button>
+            <button type="submit" disabled={submitting || !reason.trim()}
+              className="flex items-center gap-2 bg-red-600 hover:bg-red-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition">
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              Roll Back
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 export default function IssueDetail({ issue: initialIssue }: Props) {
   const [issue, setIssue] = useState<Issue>(initialIssue);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [actions, setActions] = useState<AgentAction[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [sendingMsg, setSendingMsg] = useState(false);
-  const [approvingFix, setApprovingFix] = useState(false);
-  const [rejectingFix, setRejectingFix] = useState(false);
+  const [feedbackDialog, setFeedbackDialog] = useState<'approve' | 'reject' | null>(null);
+  const [submittingFeedback, setSubmittingFeedback] = useState(false);
+  const [feedbackError, setFeedbackError] = useState('');
   const [transitioning, setTransitioning] = useState(false);
+  const [showRollback, setShowRollback] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [rollbackError, setRollbackError] = useState('');
   const [actionError, setActionError] = useState('');
   const [loadingInitial, setLoadingInitial] = useState(true);
 
@@ -211,7 +460,6 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
 
   const chatBottomRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<WebSocket | null>(null);
   const issueIdRef = useRef(initialIssue.id);
   const [isNearBottom, setIsNearBottom] = useState(true);
   const [hasNewMessages, setHasNewMessages] = useState(false);
@@ -219,52 +467,155 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
   // Attachments state
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [attachmentsOpen, setAttachmentsOpen] = useState(true);
-  const [uploadingFile, setUploadingFile] = useState(false);
   const [deletingAttachment, setDeletingAttachment] = useState<string | null>(null);
   const [attachmentError, setAttachmentError] = useState('');
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const closePreview = useCallback(() => setPreviewIndex(null), []);
+  // Screenshot open in the annotator; `fromPaste` offers attaching it as-is
+  const [annotating, setAnnotating] = useState<{ file: File; fromPaste: boolean } | null>(null);
+  const [loadingAnnotation, setLoadingAnnotation] = useState<string | null>(null);
+  const closeAnnotator = useCallback(() => setAnnotating(null), []);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const [transitions, setTransitions] = useState<TicketTransition[]>([]);
+  const [tab, setTab] = useState<'conversation' | 'changes'>('conversation');
+
+  const connection = useConnectionState();
+  const [reloads, setReloads] = useState(0);
+  const loadFailed = useRef(false);
+
   // Fetch initial data — only clear loading on success so the spinner
-  // keeps showing until polling or WS delivers data on failure.
+  // keeps showing until the socket reconnects and it's fetched again.
   useEffect(() => {
     async function load() {
       try {
-        const [msgsRes, actionsRes, attsRes] = await Promise.all([
-          api.get<ChatMessage[]>(`/api/v1/issues/${issue.id}/messages`),
-          api.get<AgentAction[]>(`/api/v1/issues/${issue.id}/actions`),
-          api.get<Attachment[]>(`/api/v1/issues/${issue.id}/attachments`),
+        const [msgs, acts, atts] = await Promise.all([
+          sdk.issues.listMessages(issue.id),
+          sdk.issues.listActions(issue.id),
+          sdk.issues.listAttachments(issue.id),
         ]);
-        setMessages(msgsRes.data);
-        setActions(actionsRes.data);
-        setAttachments(attsRes.data);
+        setMessages(msgs);
+        setActions(acts);
+        setAttachments(atts);
         setLoadingInitial(false);
+        loadFailed.current = false;
       } catch {
-        // Keep loadingInitial=true — polling or WS will deliver updates
+        // Keep loadingInitial=true — retried when the socket reconnects
+        loadFailed.current = true;
       }
     }
     load();
-  }, [issue.id]);
+  }, [issue.id, reloads]);
+
+  // Events missed while the socket was down are replayed on resubscribe, but
+  // a first load that failed has nothing to replay onto — retry it once the
+  // socket is back, as a sign the API is reachable again.
+  useEffect(() => {
+    if (connection !== 'open' || !loadFailed.current) return;
+    sdk.issues.get(issueIdRef.current).then(setIssue).catch(() => {
+      // Keep what's shown; the next reconnect tries again
+    });
+    setReloads((n) => n + 1);
+  }, [connection]);
+
+  // Refetch the history whenever the ticket changes column, so the timeline
+  // stays right even if the transition event itself was missed.
+  useEffect(() => {
+    sdk.issues.listTransitions(issue.id)
+      .then(setTransitions)
+      .catch(() => {});
+  }, [issue.id, issue.kanban_column]);
 
   // Attachment handlers
-  async function handleFileUpload(e: React.ChangeEvent<HTMLInputElement>) {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    setUploadingFile(true);
+  const uploads = useUploadQueue(
+    (file, opts) => sdk.issues.uploadAttachment(issue.id, file, opts),
+    (uploaded) => setAttachments((prev) => [...prev, uploaded]),
+  );
+  const { addFiles } = uploads;
+
+  const queueFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    setAttachmentError('');
+    setAttachmentsOpen(true);
+    addFiles(files);
+  }, [addFiles]);
+
+  function handleFileInput(e: React.ChangeEvent<HTMLInputElement>) {
+    queueFiles(Array.from(e.target.files ?? []));
+    // Reset file input so same file can be re-uploaded
+    e.target.value = '';
+  }
+
+  // Drop files anywhere on the page. Counting enter/leave keeps the overlay
+  // from flickering as the pointer crosses child elements.
+  const dragDepth = useRef(0);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+
+  function hasFiles(e: React.DragEvent) {
+    return Array.from(e.dataTransfer.types).includes('Files');
+  }
+
+  function handleDragEnter(e: React.DragEvent) {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepth.current++;
+    setDraggingFiles(true);
+  }
+
+  function handleDragOver(e: React.DragEvent) {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  }
+
+  function handleDragLeave(e: React.DragEvent) {
+    if (!hasFiles(e)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setDraggingFiles(false);
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepth.current = 0;
+    setDraggingFiles(false);
+    queueFiles(Array.from(e.dataTransfer.files));
+  }
+
+  // Paste screenshots straight from the clipboard. Text pastes are left
+  // alone. A pasted image opens in the annotator first; anything else
+  // uploads as-is.
+  useEffect(() => {
+    if (annotating) return;
+    function onPaste(e: ClipboardEvent) {
+      const files = Array.from(e.clipboardData?.items ?? [])
+        .filter((item) => item.kind === 'file')
+        .map((item) => item.getAsFile())
+        .filter((f): f is File => f !== null)
+        .map(nameClipboardFile);
+      if (files.length === 0) return;
+      e.preventDefault();
+      const screenshot = files.find((f) => f.type.startsWith('image/'));
+      if (screenshot) setAnnotating({ file: screenshot, fromPaste: true });
+      queueFiles(files.filter((f) => f !== screenshot));
+    }
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [queueFiles, annotating]);
+
+  async function annotateAttachment(att: Attachment) {
+    setLoadingAnnotation(att.id);
     setAttachmentError('');
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      const res = await api.post<Attachment>(
-        `/api/v1/issues/${issue.id}/attachments`,
-        formData
-      );
-      setAttachments((prev) => [...prev, res.data]);
+      const blob = await sdk.issues.downloadAttachment(att);
+      setAnnotating({
+        file: new File([blob], att.filename, { type: blob.type || att.mime_type || 'image/png' }),
+        fromPaste: false,
+      });
     } catch {
-      setAttachmentError('Upload failed. Please try again.');
+      setAttachmentError("Couldn't open that image for annotation.");
     } finally {
-      setUploadingFile(false);
-      // Reset file input so same file can be re-uploaded
-      if (fileInputRef.current) fileInputRef.current.value = '';
+      setLoadingAnnotation(null);
     }
   }
 
@@ -272,7 +623,7 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
     setDeletingAttachment(attachmentId);
     setAttachmentError('');
     try {
-      await api.delete(`/api/v1/issues/${issue.id}/attachments/${attachmentId}`);
+      await sdk.issues.deleteAttachment(issue.id, attachmentId);
       setAttachments((prev) => prev.filter((a) => a.id !== attachmentId));
     } catch {
       setAttachmentError('Delete failed. Please try again.');
@@ -312,6 +663,14 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
         }
         break;
       }
+      case 'transition':
+      case 'ticket_transition': {
+        const t = event.transition as TicketTransition | undefined;
+        if (t) {
+          setTransitions((prev) => (prev.some((p) => p.id === t.id) ? prev : [...prev, t]));
+        }
+        break;
+      }
       case 'issue_updated':
       case 'status_update': {
         const updated = event.issue as Issue | undefined;
@@ -324,8 +683,8 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
         const confidence = event.confidence_score as number | undefined;
         const pct = confidence != null ? ` — confidence ${(confidence * 100).toFixed(0)}%` : '';
         setDiagnosisBanner(`Diagnosis complete${pct}`);
-        api.get<Issue>(`/api/v1/issues/${id}`)
-          .then((res) => setIssue(res.data))
+        sdk.issues.get(id)
+          .then(setIssue)
           .catch(() => {});
         break;
       }
@@ -363,11 +722,33 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
       }
       case 'fix_complete': {
         setFixBanner({ type: 'success', message: 'Fix applied successfully!' });
-        api.get<Issue>(`/api/v1/issues/${id}`)
-          .then((res) => setIssue(res.data))
+        sdk.issues.get(id)
+          .then(setIssue)
+          .catch(() => {});
+        break;
+      }
+      case 'rollback_started': {
+        setFixBanner(null);
+        setDiagnosisBanner('Rollback in progress — restoring your site…');
+        break;
+      }
+      case 'rollback_complete': {
+        setDiagnosisBanner(null);
+        setFixBanner({ type: 'success', message: 'Fix rolled back. Your site is back to how it was before.' });
+        sdk.issues.get(id)
+          .then(setIssue)
           .catch(() => {});
         break;
       }
+      case 'rollback_failed': {
+        const errMsg = event.error as string | undefined;
+        setDiagnosisBanner(null);
+        setFixBanner({
+          type: 'error',
+          message: errMsg ?? 'Rollback failed. Our team has been notified.',
+        });
+        break;
+      }
       case 'fix_failed': {
         const errMsg = event.error as string | undefined;
         setFixBanner({
@@ -379,61 +760,7 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
     }
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // WebSocket connection
-  useEffect(() => {
-    const token = getToken();
-    if (!token) return;
-
-    // Build WS URL from the API base URL (swap http → ws)
-    const apiBase = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:5000';
-    const wsBase = apiBase.replace(/^http/, 'ws');
-    const wsUrl = `${wsBase}/ws/issues/${issue.id}?token=${token}`;
-
-    let pollInterval: ReturnType<typeof setInterval> | null = null;
-
-    function startPolling() {
-      if (pollInterval) return;
-      pollInterval = setInterval(async () => {
-        try {
-          const res = await api.get<ChatMessage[]>(`/api/v1/issues/${issue.id}/messages`);
-          setMessages(res.data);
-          setLoadingInitial(false);
-          // Also refresh issue state
-          const issueRes = await api.get(`/api/v1/issues/${issue.id}`);
-          setIssue(issueRes.data);
-        } catch { /* silent */ }
-      }, 5000);
-    }
-
-    function stopPolling() {
-      if (pollInterval) { clearInterval(pollInterval); pollInterval = null; }
-    }
-
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => { stopPolling(); };
-
-    ws.onmessage = (event: MessageEvent) => {
-      try {
-        const data: WsEvent = JSON.parse(event.data as string);
-        handleWsEvent(data);
-      } catch {
-        // Ignore parse errors
-      }
-    };
-
-    ws.onerror = () => { startPolling(); };
-    ws.onclose = () => { wsRef.current = null; startPolling(); };
-
-    // Start polling immediately as fallback (WS will stop it if it connects)
-    startPolling();
-
-    return () => {
-      ws.close();
-      stopPolling();
-    };
-  }, [issue.id, handleWsEvent]);
+  useRealtimeChannel(`issue:${issue.id}`, handleWsEvent);
 
   // Track whether the user is scrolled near the bottom of the chat
   function handleChatScroll(e: UIEvent<HTMLDivElement>) {
@@ -458,24 +785,28 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
     }
   }, [messages, isNearBottom]);
 
-  // Progress bar derived values
-  const completedActions = actions.filter((a) => a.status === 'completed').length;
-  const failedActions = actions.filter((a) => a.status === 'failed').length;
-  const totalActions = actions.length;
+  // Progress bar derived values — the fix only; a rollback has its own list
+  const fixActions = actions.filter((a) => a.sequence !== 'rollback');
+  const rollbackActions = actions.filter((a) => a.sequence === 'rollback');
+  const rollbackRunning = rollbackActions.some((a) => a.status === 'pending' || a.status === 'in_progress');
+  const completedActions = fixActions.filter((a) => a.status === 'completed').length;
+  const failedActions = fixActions.filter((a) => a.status === 'failed').length;
+  const totalActions = fixActions.length;
   const showProgress = totalActions > 0 && (issue.status === 'in_progress' || completedActions > 0);
 
+  function appendMessage(msg: ChatMessage) {
+    setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+  }
+
   async function sendMessage(e: React.FormEvent) {
     e.preventDefault();
     if (!newMessage.trim() || sendingMsg) return;
     setSendingMsg(true);
     try {
-      const res = await api.post<ChatMessage>(`/api/v1/issues/${issue.id}/messages`, {
+      const sent = await sdk.issues.sendMessage(issue.id, {
         content: newMessage.trim(),
       });
-      setMessages((prev) => {
-        if (prev.find((m) => m.id === res.data.id)) return prev;
-        return [...prev, res.data];
-      });
+      appendMessage(sent);
       setNewMessage('');
     } catch {
       // Show nothing — message failed silently
@@ -484,29 +815,56 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
     }
   }
 
-  async function approveFix() {
-    setApprovingFix(true);
-    setActionError('');
+  async function submitFeedback(request: () => Promise<Issue>, fallbackError: string) {
+    setSubmittingFeedback(true);
+    setFeedbackError('');
     try {
-      const res = await api.post<Issue>(`/api/v1/issues/${issue.id}/approve`);
-      setIssue(res.data);
-    } catch {
-      setActionError('Failed to approve fix. Please try again.');
+      setIssue(await request());
+      setFeedbackDialog(null);
+    } catch (e: unknown) {
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      setFeedbackError(typeof d === 'string' ? d : fallbackError);
     } finally {
-      setApprovingFix(false);
+      setSubmittingFeedback(false);
     }
   }
 
-  async function rejectFix() {
-    setRejectingFix(true);
-    setActionError('');
+  // UAT sign-off is a transition; the legacy pending_approval flow has its
+  // own endpoints. Both carry the same feedback into the transition history.
+  function approveFix(body: ApproveFixRequest) {
+    submitFeedback(
+      () => issue.kanban_column === 'ready_for_uat'
+        ? sdk.issues.transition(issue.id, approvalTransition('done', body))
+        : sdk.issues.approve(issue.id, body),
+      'Failed to approve fix. Please try again.'
+    );
+  }
+
+  function rejectFix(body: RejectFixRequest) {
+    submitFeedback(
+      () => issue.kanban_column === 'ready_for_uat'
+        ? sdk.issues.transition(issue.id, rejectionTransition('todo', body))
+        : sdk.issues.reject(issue.id, body),
+      'Failed to reject fix. Please try again.'
+    );
+  }
+
+  function closeFeedback() {
+    setFeedbackDialog(null);
+    setFeedbackError('');
+  }
+
+  async function rollback(body: RollbackRequest) {
+    setRollingBack(true);
+    setRollbackError('');
     try {
-      const res = await api.post<Issue>(`/api/v1/issues/${issue.id}/reject`);
-      setIssue(res.data);
-    } catch {
-      setActionError('Failed to reject fix. Please try again.');
+      setIssue(await sdk.issues.rollback(issue.id, body));
+      setShowRollback(false);
+    } catch (e: unknown) {
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      setRollbackError(typeof d === 'string' ? d : 'Rollback could not be started. Please try again.');
     } finally {
-      setRejectingFix(false);
+      setRollingBack(false);
     }
   }
 
@@ -514,11 +872,7 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
     setTransitioning(true);
     setActionError('');
     try {
-      const res = await api.post<Issue>(`/api/v1/issues/${issue.id}/transition`, {
-        to_col: toCol,
-        note,
-      });
-      setIssue(res.data);
+      setIssue(await sdk.issues.transition(issue.id, { to_col: toCol, note }));
     } catch (e: unknown) {
       const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
       setActionError(typeof d === 'string' ? d : 'Action failed. Please try again.');
@@ -529,9 +883,73 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
 
   const showApproveReject = issue.status === 'pending_approval';
   const kanban = issue.kanban_column ?? 'triage';
+  const awaitingReview = showApproveReject || kanban === 'ready_for_uat';
+  const canRollBack = (kanban === 'done' || kanban === 'ready_for_uat') && !rollbackRunning;
 
   return (
-    <div className="space-y-6">
+    <div
+      className="space-y-6"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {draggingFiles && (
+        <div className="fixed inset-0 z-50 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-8 pointer-events-none">
+          <div className="border-2 border-dashed border-blue-500 rounded-2xl px-12 py-10 text-center">
+            <Upload className="w-8 h-8 text-blue-400 mx-auto mb-3" />
+            <p className="text-white font-semibold">Drop files to attach them to this issue</p>
+            <p className="text-xs text-slate-400 mt-1">Up to {formatBytes(MAX_ATTACHMENT_BYTES)} each</p>
+          </div>
+        </div>
+      )}
+      {previewIndex !== null && attachments[previewIndex] && (
+        <AttachmentPreview
+          attachments={attachments}
+          index={previewIndex}
+          onNavigate={setPreviewIndex}
+          onClose={closePreview}
+        />
+      )}
+      {annotating && (
+        <ScreenshotAnnotator
+          file={annotating.file}
+          onCancel={closeAnnotator}
+          onSave={(annotated) => { setAnnotating(null); queueFiles([annotated]); }}
+          onSkip={annotating.fromPaste ? () => { setAnnotating(null); queueFiles([annotating.file]); } : undefined}
+        />
+      )}
+      {showRollback && (
+        <RollbackModal
+          onCancel={() => { setShowRollback(false); setRollbackError(''); }}
+          onConfirm={rollback}
+          submitting={rollingBack}
+          error={rollbackError}
+        />
+      )}
+
+      {feedbackDialog === 'approve' && (
+        <ApproveDialog
+          title={kanban === 'ready_for_uat' ? 'UAT pass — looks good' : 'Approve fix'}
+          submitting={submittingFeedback}
+          error={feedbackError}
+          onCancel={closeFeedback}
+          onConfirm={approveFix}
+        />
+      )}
+      {feedbackDialog === 'reject' && (
+        <RejectDialog
+          title={kanban === 'ready_for_uat' ? 'UAT fail — still broken' : 'Reject fix'}
+          attempt={issue.dev_fail_count + 2}
+          attachments={attachments}
+          uploadHint
+          submitting={submittingFeedback}
+          error={feedbackError}
+          onCancel={closeFeedback}
+          onConfirm={rejectFix}
+        />
+      )}
+
       {/* Diagnosis banner */}
       {diagnosisBanner && (
         <div className="flex items-center justify-between gap-3 bg-blue-500/10 border border-blue-500/30 text-blue-300 rounded-xl px-4 py-3 text-sm">
@@ -630,7 +1048,7 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
             {kanban === 'ready_for_uat' && (
               <>
                 <button
-                  onClick={() => transition('done')}
+                  onClick={() => setFeedbackDialog('approve')}
                   disabled={transitioning}
                   className="flex items-center gap-2 bg-green-600 hover:bg-green-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition"
                 >
@@ -638,7 +1056,7 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
                   UAT Pass — Looks Good
                 </button>
                 <button
-                  onClick={() => transition('todo', 'UAT failed — customer rejected')}
+                  onClick={() => setFeedbackDialog('reject')}
                   disabled={transitioning}
                   className="flex items-center gap-2 bg-red-600 hover:bg-red-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition"
                 >
@@ -647,23 +1065,36 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
                 </button>
               </>
             )}
+            {canRollBack && (
+              <button
+                onClick={() => setShowRollback(true)}
+                className="flex items-center gap-2 border border-red-600/50 text-red-300 hover:bg-red-900/20 text-sm font-semibold px-4 py-2 rounded-lg transition"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Roll Back This Fix
+              </button>
+            )}
+            {awaitingReview && tab !== 'changes' && (
+              <button
+                onClick={() => setTab('changes')}
+                className="text-xs text-blue-400 hover:text-blue-300 underline transition self-end"
+              >
+                Review the changes first
+              </button>
+            )}
             {/* Legacy approve/reject (pending_approval status) */}
             {showApproveReject && kanban !== 'ready_for_uat' && (
               <div className="flex gap-2">
                 <button
-                  onClick={approveFix}
-                  disabled={approvingFix || rejectingFix}
+                  onClick={() => setFeedbackDialog('approve')}
                   className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition"
                 >
-                  {approvingFix && <Loader2 className="w-4 h-4 animate-spin" />}
                   Approve Fix
                 </button>
                 <button
-                  onClick={rejectFix}
-                  disabled={approvingFix || rejectingFix}
+                  onClick={() => setFeedbackDialog('reject')}
                   className="flex items-center gap-2 bg-red-600 hover:bg-red-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition"
                 >
-                  {rejectingFix && <Loader2 className="w-4 h-4 animate-spin" />}
                   Reject
                 </button>
               </div>
@@ -678,12 +1109,45 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
         )}
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Tabs */}
+      <div className="flex gap-1 border-b border-slate-700">
+        {(['conversation', 'changes'] as const).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`flex items-center gap-2 px-4 py-2 -mb-px text-sm font-medium border-b-2 transition ${
+              tab === t
+                ? 'border-blue-500 text-white'
+                : 'border-transparent text-slate-400 hover:text-white'
+            }`}
+          >
+            {t === 'conversation' ? 'Conversation' : 'Changes'}
+            {t === 'changes' && awaitingReview && (
+              <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Awaiting your review" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Kept mounted so the chat keeps its scroll position across tabs */}
+      <div className={tab === 'changes' ? '' : 'hidden'}>
+        <ChangesPanel
+          issueId={issue.id}
+          active={tab === 'changes'}
+          refreshKey={`${issue.status}:${kanban}`}
+          onComment={appendMessage}
+        />
+      </div>
+
+      <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 ${tab === 'conversation' ? '' : 'hidden'}`}>
         {/* Chat */}
         <div className="bg-slate-800 border border-slate-700 rounded-xl flex flex-col h-[520px]">
           <div className="px-5 py-3.5 border-b border-slate-700 flex-shrink-0 flex items-center justify-between">
             <h2 className="text-white font-semibold text-sm">Conversation</h2>
-            <AgentStatusIndicator issue={issue} actions={actions} />
+            <div className="flex items-center gap-3">
+              <RealtimeStatus />
+              <AgentStatusIndicator issue={issue} actions={actions} />
+            </div>
           </div>
 
           {/* Messages */}
@@ -742,13 +1206,18 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
                       </div>
                     )}
                     <div
-                      className={`max-w-[80%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed ${
+                      className={`max-w-[80%] min-w-0 rounded-2xl px-4 py-2.5 text-sm leading-relaxed ${
                         isUser
                           ? 'bg-blue-600 text-white rounded-br-sm'
                           : 'bg-slate-700 text-slate-200 rounded-bl-sm'
                       }`}
                     >
-                      <p className="whitespace-pre-wrap break-words">{msg.content}</p>
+                      {/* Agents write Markdown; customers' messages stay verbatim */}
+                      {isUser ? (
+                        <p className="whitespace-pre-wrap break-words">{msg.content}</p>
+                      ) : (
+                        <Markdown content={msg.content} />
+                      )}
                       <p
                         className={`text-[10px] mt-1 ${
                           isUser ? 'text-blue-200' : 'text-slate-500'
@@ -785,11 +1254,19 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
             onSubmit={sendMessage}
             className="border-t border-slate-700 p-3 flex gap-2 flex-shrink-0"
           >
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg px-2.5 py-2 transition"
+              title="Attach files"
+            >
+              <Paperclip className="w-4 h-4" />
+            </button>
             <input
               type="text"
               value={newMessage}
               onChange={(e) => setNewMessage(e.target.value)}
-              placeholder="Type a message…"
+              placeholder="Type a message, or paste a screenshot…"
               className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-500 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition"
             />
             <button
@@ -848,56 +1325,31 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
                 No agent actions yet. The AI agent will act here once analysis begins.
               </p>
             ) : (
-              <ul className="space-y-3">
-                {actions.map((action, idx) => (
-                  <li
-                    key={action.id}
-                    className={`flex items-start gap-3 rounded-lg p-3 transition-colors ${
-                      action.status === 'in_progress'
-                        ? 'bg-blue-500/10 border border-blue-600/20'
-                        : action.status === 'completed'
-                        ? 'bg-green-500/5 border border-green-600/10'
-                        : action.status === 'failed'
-                        ? 'bg-red-500/10 border border-red-600/20'
-                        : 'bg-slate-700/40'
-                    }`}
-                  >
-                    {/* Step number */}
-                    <span className="text-xs text-slate-500 font-mono w-5 flex-shrink-0 mt-0.5">
-                      {String(idx + 1).padStart(2, '0')}
-                    </span>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <ActionStatusIcon status={action.status} />
-                        <span className="text-xs font-medium text-slate-300 truncate">
-                          {action.action_type}
-                        </span>
-                      </div>
-                      <p className="text-xs text-slate-400 mt-1 leading-relaxed">
-                        {action.description}
-                      </p>
-                      {action.status === 'failed' && action.error_detail && (
-                        <p className="text-xs text-red-400 mt-1 leading-relaxed">
-                          {action.error_detail}
-                        </p>
-                      )}
+              <>
+                <ul className="space-y-3">
+                  {fixActions.map((action, idx) => (
+                    <ActionItem key={action.id} action={action} idx={idx} />
+                  ))}
+                </ul>
+
+                {/* Rollback run, tracked separately from the fix it undoes */}
+                {rollbackActions.length > 0 && (
+                  <div className="mt-5">
+                    <div className="flex items-center gap-2 mb-2">
+                      <RotateCcw className="w-3.5 h-3.5 text-amber-400" />
+                      <span className="text-xs font-semibold text-amber-300 uppercase tracking-wide">Rollback</span>
+                      <span className="ml-auto text-xs text-slate-400">
+                        {rollbackActions.filter((a) => a.status === 'completed').length}/{rollbackActions.length} steps
+                      </span>
                     </div>
-                    <span
-                      className={`text-[10px] font-medium flex-shrink-0 ${
-                        action.status === 'completed'
-                          ? 'text-green-400'
-                          : action.status === 'failed'
-                          ? 'text-red-400'
-                          : action.status === 'in_progress'
-                          ? 'text-blue-400'
-                          : 'text-yellow-400'
-                      }`}
-                    >
-                      {action.status.replace('_', ' ')}
-                    </span>
-                  </li>
-                ))}
-              </ul>
+                    <ul className="space-y-3">
+                      {rollbackActions.map((action, idx) => (
+                        <ActionItem key={action.id} action={action} idx={idx} />
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
             )}
           </div>
         </div>
@@ -923,16 +1375,15 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
             {/* Upload button inside header */}
             <button
               onClick={(e) => { e.stopPropagation(); fileInputRef.current?.click(); }}
-              disabled={uploadingFile}
-              className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white bg-slate-700 hover:bg-slate-600 px-2.5 py-1 rounded-lg transition disabled:opacity-50"
-              title="Upload file"
+              className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white bg-slate-700 hover:bg-slate-600 px-2.5 py-1 rounded-lg transition"
+              title="Upload files"
             >
-              {uploadingFile ? (
+              {uploads.busy ? (
                 <Loader2 className="w-3.5 h-3.5 animate-spin" />
               ) : (
                 <Upload className="w-3.5 h-3.5" />
               )}
-              {uploadingFile ? 'Uploading…' : 'Upload'}
+              {uploads.busy ? 'Uploading…' : 'Upload'}
             </button>
             {attachmentsOpen ? (
               <ChevronDown className="w-4 h-4 text-slate-500" />
@@ -947,8 +1398,9 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
           ref={fileInputRef}
           type="file"
           className="hidden"
-          onChange={handleFileUpload}
+          onChange={handleFileInput}
           accept="*/*"
+          multiple
         />
 
         {/* Body */}
@@ -960,35 +1412,77 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
               </div>
             )}
 
+            {uploads.items.length > 0 && (
+              <div className="mt-3">
+                <UploadQueue
+                  items={uploads.items}
+                  onCancel={uploads.cancel}
+                  onRetry={uploads.retry}
+                  onDismiss={uploads.dismiss}
+                />
+              </div>
+            )}
+
             {attachments.length === 0 ? (
-              <p className="text-slate-500 text-sm text-center py-6">
-                No attachments yet.{' '}
-                <button
-                  onClick={() => fileInputRef.current?.click()}
-                  className="text-blue-400 hover:text-blue-300 underline transition"
-                >
-                  Upload a file
-                </button>
-              </p>
+              uploads.items.length === 0 && (
+                <p className="text-slate-500 text-sm text-center py-6">
+                  No attachments yet.{' '}
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-blue-400 hover:text-blue-300 underline transition"
+                  >
+                    Upload files
+                  </button>
+                  , drop them here or paste a screenshot.
+                </p>
+              )
             ) : (
               <ul className="mt-3 space-y-2">
-                {attachments.map((att) => (
+                {attachments.map((att, idx) => (
                   <li
                     key={att.id}
                     className="flex items-center gap-3 bg-slate-700/40 rounded-lg px-3 py-2.5 group"
                   >
-                    <Paperclip className="w-4 h-4 text-slate-500 flex-shrink-0" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm text-slate-200 truncate">{att.filename}</p>
+                    <AttachmentIcon attachment={att} className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                    <button
+                      type="button"
+                      onClick={() => setPreviewIndex(idx)}
+                      className="flex-1 min-w-0 text-left"
+                      title="Preview"
+                    >
+                      <p className="text-sm text-slate-200 truncate group-hover:text-white transition">{att.filename}</p>
                       <p className="text-xs text-slate-500 mt-0.5">
                         {formatBytes(att.size_bytes)}
                         {att.mime_type ? ` · ${att.mime_type}` : ''}
                       </p>
-                    </div>
+                    </button>
                     <div className="flex items-center gap-1 flex-shrink-0">
+                      {/* Preview */}
+                      <button
+                        onClick={() => setPreviewIndex(idx)}
+                        className="p-1.5 text-slate-400 hover:text-white rounded transition"
+                        title="Preview"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </button>
+                      {/* Annotate */}
+                      {previewKind(att) === 'image' && (
+                        <button
+                          onClick={() => annotateAttachment(att)}
+                          disabled={loadingAnnotation === att.id}
+                          className="p-1.5 text-slate-400 hover:text-white rounded transition disabled:opacity-50"
+                          title="Annotate a copy"
+                        >
+                          {loadingAnnotation === att.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <PenLine className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
                       {/* Download */}
                       <a
-                        href={`${process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:5000'}${att.download_url}`}
+                        href={attachmentHref(att)}
                         download={att.filename}
                         className="p-1.5 text-slate-400 hover:text-white rounded transition"
                         title="Download"
@@ -1017,6 +1511,15 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
         )}
       </div>
 
+      {/* Transition history */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl px-5 py-4">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-slate-400" />
+          <h2 className="text-white font-semibold text-sm">History</h2>
+        </div>
+        <TransitionTimeline issue={issue} transitions={transitions} attachments={attachments} />
+      </div>
+
       {/* Metadata */}
       <div className="bg-slate-800 border border-slate-700 rounded-xl p-5 text-sm">
         <h3 className="text-slate-400 font-medium text-xs uppercase tracking-wide mb-3">
@@ -1044,6 +1547,42 @@ export default function IssueDetail({ issue: initialIssue }: Props) {
             </dd>
           </div>
         </dl>
+        {(issue.page_urls?.length || issue.environment) && (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4 pt-4 border-t border-slate-700">
+            {issue.page_urls && issue.page_urls.length > 0 && (
+              <div className="min-w-0">
+                <dt className="text-slate-500 text-xs">Affected pages</dt>
+                {issue.page_urls.map((url) => {
+                  const href = safeHref(url);
+                  return (
+                    <dd key={url} className="text-xs mt-0.5 truncate">
+                      {href ? (
+                        <a href={href} target="_blank" rel="noopener noreferrer"
+                          className="text-blue-400 hover:text-blue-300 underline underline-offset-2">
+                          {url}
+                        </a>
+                      ) : (
+                        // An unsafe scheme, e.g. javascript:, stays inert text
+                        <span className="text-slate-200">{url}</span>
+                      )}
+                    </dd>
+                  );
+                })}
+              </div>
+            )}
+            {issue.environment && (
+              <div className="min-w-0">
+                <dt className="text-slate-500 text-xs">Reported from</dt>
+                <dd className="text-slate-200 text-xs mt-0.5" title={issue.environment.user_agent}>
+                  {describeEnvironment(issue.environment)}
+                </dd>
+                <dd className="text-slate-500 text-xs mt-0.5">
+                  {issue.environment.device} · screen {issue.environment.screen} @{issue.environment.pixel_ratio}x · {issue.environment.language} · {issue.environment.timezone}
+                </dd>
+              </div>
+            )}
+          </dl>
+        )}
       </div>
     </div>
   );
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
 import type { Issue } from '@/types';
 import IssueDetail from './IssueDetail';
 import { Loader2, AlertCircle } from 'lucide-react';
@@ -18,9 +18,9 @@ export default function IssueDetailLoader({ issueId }: Props) {
   const [error, setError] = useState('');
 
   useEffect(() => {
-    api
-      .get<Issue>(`/api/v1/issues/${issueId}`)
-      .then((res) => setIssue(res.data))
+    sdk.issues
+      .get(issueId)
+      .then(setIssue)
       .catch((err: unknown) => {
         const axiosErr = err as { response?: { status?: number } };
         if (axiosErr.response?.status === 404) {
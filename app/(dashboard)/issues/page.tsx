@@ -1,11 +1,29 @@
 'use client';
 
-import { useEffect, useState, Suspense } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
-import api from '@/lib/api';
-import type { Issue, Site, KanbanColumn } from '@/types';
-import { Loader2, Plus, LayoutList, Kanban } from 'lucide-react';
+import sdk from '@/lib/sdk';
+import {
+  approvalTransition, customerTransition, customerTransitions, rejectionTransition,
+} from '@/lib/transitions';
+import {
+  activeFilterCount, AGENT_FILTER_LABELS, AGENT_ROLES, EMPTY_FILTERS, GROUPING_LABELS, groupIssues, issueListParams, issuesHref,
+  matchesIssueFilters, parseIssueView, PRIORITY_OPTIONS, STATUS_LABELS, visibleBoardColumns,
+} from '@/lib/issueFilters';
+import type { IssueFilters, IssueGroup, IssueGrouping, IssueViewConfig } from '@/lib/issueFilters';
+import { useIssuePages } from '@/lib/useIssuePages';
+import type { PageState } from '@/lib/useIssuePages';
+import { loadSavedViews } from '@/lib/useSavedViews';
+import type { CustomerTransition } from '@/lib/transitions';
+import { RealtimeStatus, useRealtimeChannel } from '@/components/RealtimeProvider';
+import { VirtualList } from '@/components/VirtualList';
+import { ApproveDialog, RejectDialog } from '@/components/FeedbackDialogs';
+import NewIssueModal from './NewIssueModal';
+import BulkActions from './BulkActions';
+import { DisplayMenu, ExportMenu, SavedViewsMenu } from './ViewControls';
+import type { Attachment, Issue, IssueListParams, Site, KanbanColumn, TransitionRequest, WsEvent } from '@/types';
+import { ChevronDown, ChevronRight, Loader2, Plus, LayoutList, Kanban, Search, X } from 'lucide-react';
 
 // ── Constants ──────────────────────────────────────────────────────────────
 
@@ -20,6 +38,16 @@ const KANBAN_COLUMNS: { col: KanbanColumn; label: string; color: string; dot: st
   { col: 'done',                  label: 'Done',                 color: 'border-green-600',   dot: 'bg-green-400' },
 ];
 
+/** The board columns the view shows: not hidden, and able to hold a match. */
+function visibleColumns(view: IssueViewConfig): typeof KANBAN_COLUMNS {
+  const shown = visibleBoardColumns(view);
+  return KANBAN_COLUMNS.filter(({ col }) => shown.includes(col));
+}
+
+// Issues fetched per request: per column on the board, in total for the list
+const COLUMN_PAGE_SIZE = 20;
+const LIST_PAGE_SIZE = 50;
+
 const PRIORITY_DOT: Record<Issue['priority'], string> = {
   critical: 'bg-red-500',
   high: 'bg-orange-500',
@@ -27,16 +55,131 @@ const PRIORITY_DOT: Record<Issue['priority'], string> = {
   low: 'bg-slate-500',
 };
 
+// ── Seen snapshot ─────────────────────────────────────────────────────────
+// The column each card was in when the user last had the board open, so
+// cards that moved while they were away can be highlighted on return.
+
+const BOARD_SEEN_KEY = 'sitedoc_board_seen';
+
+type BoardSnapshot = Record<string, KanbanColumn>;
+
+function loadSeenSnapshot(): BoardSnapshot | null {
+  try {
+    const raw = localStorage.getItem(BOARD_SEEN_KEY);
+    return raw ? (JSON.parse(raw) as BoardSnapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSeenSnapshot(issues: Issue[]) {
+  // Merged into the last save: only the loaded pages were on screen, and
+  // cards that weren't keep the column they were last seen in
+  const snapshot: BoardSnapshot = {
+    ...loadSeenSnapshot(),
+    ...Object.fromEntries(issues.map((i) => [i.id, i.kanban_column ?? 'triage'])),
+  };
+  try {
+    localStorage.setItem(BOARD_SEEN_KEY, JSON.stringify(snapshot));
+  } catch {
+    // Storage full or disabled — highlights just won't survive a reload
+  }
+}
+
+function changedSince(snapshot: BoardSnapshot | null, issues: Issue[]): Set<string> {
+  // First visit: nothing to compare against, so nothing is "new"
+  if (!snapshot) return new Set();
+  return new Set(
+    issues.filter((i) => snapshot[i.id] !== (i.kanban_column ?? 'triage')).map((i) => i.id)
+  );
+}
+
+// ── Collapsed swimlanes ───────────────────────────────────────────────────
+// Remembered per grouping, so collapsing a site's lane doesn't collapse a
+// priority lane that happens to share its key.
+
+const COLLAPSED_LANES_KEY = 'sitedoc_board_collapsed_lanes';
+
+type CollapsedLanes = Partial<Record<IssueGrouping, string[]>>;
+
+function loadCollapsedLanes(): CollapsedLanes {
+  try {
+    const raw = localStorage.getItem(COLLAPSED_LANES_KEY);
+    return raw ? (JSON.parse(raw) as CollapsedLanes) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveCollapsedLanes(lanes: CollapsedLanes) {
+  try {
+    localStorage.setItem(COLLAPSED_LANES_KEY, JSON.stringify(lanes));
+  } catch {
+    // Storage full or disabled — lanes just open expanded next time
+  }
+}
+
+// ── Last grouping ─────────────────────────────────────────────────────────
+// A bare /issues link carries no grouping, so the last one the user picked
+// is put back when no default view takes its place.
+
+const GROUPING_KEY = 'sitedoc_issue_grouping';
+
+function loadGrouping(): IssueGrouping {
+  try {
+    const raw = localStorage.getItem(GROUPING_KEY);
+    return raw && raw in GROUPING_LABELS ? (raw as IssueGrouping) : 'none';
+  } catch {
+    return 'none';
+  }
+}
+
+function saveGrouping(group: IssueGrouping) {
+  try {
+    localStorage.setItem(GROUPING_KEY, group);
+  } catch {
+    // Storage full or disabled — the board opens ungrouped next time
+  }
+}
+
 // ── Kanban card ────────────────────────────────────────────────────────────
 
-function IssueCard({ issue }: { issue: Issue }) {
+function IssueCard({ issue, changed, onSeen, dragSource, dragProps }: {
+  issue: Issue;
+  changed: boolean;
+  onSeen: (id: string) => void;
+  dragSource?: boolean;
+  dragProps?: React.HTMLAttributes<HTMLAnchorElement>;
+}) {
   return (
-    <Link href={`/issues/${issue.id}`}>
-      <div className="bg-slate-800 border border-slate-700 hover:border-slate-500 rounded-lg p-3 cursor-pointer transition group">
+    <Link
+      href={`/issues/${issue.id}`}
+      onClick={() => onSeen(issue.id)}
+      {...dragProps}
+      className="block rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+    >
+      <div
+        onMouseEnter={changed ? () => onSeen(issue.id) : undefined}
+        // A card that changes column remounts in the new one, so the enter
+        // animation plays as it arrives.
+        className={`bg-slate-800 border rounded-lg p-3 transition group ${
+          dragProps ? 'cursor-grab select-none' : 'cursor-pointer'
+        } ${dragSource ? 'opacity-40' : ''} ${
+          changed
+            ? 'border-blue-500/60 ring-1 ring-blue-500/30 hover:border-blue-400 animate-card-enter'
+            : 'border-slate-700 hover:border-slate-500'
+        }`}
+      >
         {/* ticket number */}
-        {issue.ticket_number && (
-          <div className="text-[10px] text-slate-500 font-mono mb-1">
-            TKT-{String(issue.ticket_number).padStart(3, '0')}
+        {(issue.ticket_number || changed) && (
+          <div className="flex items-center text-[10px] text-slate-500 font-mono mb-1">
+            {issue.ticket_number && ticketLabel(issue)}
+            {changed && (
+              <span className="ml-auto flex items-center gap-1 font-sans text-blue-300">
+                <span className="w-1.5 h-1.5 rounded-full bg-blue-400" />
+                Updated
+              </span>
+            )}
           </div>
         )}
 
@@ -66,42 +209,363 @@ function IssueCard({ issue }: { issue: Issue }) {
   );
 }
 
+function ticketLabel(issue: Issue): string {
+  return issue.ticket_number
+    ? `TKT-${String(issue.ticket_number).padStart(3, '0')}`
+    : issue.title;
+}
+
+// ── Drag and drop ──────────────────────────────────────────────────────────
+// Pointer events cover mouse, pen and touch; keyboard users pick a card up
+// with Space, choose a column with the arrow keys and drop with Enter.
+
+const DRAG_THRESHOLD_PX = 6;
+// Touch drags start on a short press-and-hold so a swipe still scrolls the board
+const TOUCH_HOLD_MS = 300;
+
+interface DragState {
+  issue: Issue;
+  mode: 'pointer' | 'keyboard';
+  over: KanbanColumn | null;
+  // Pointer mode: where the ghost card is drawn
+  x: number;
+  y: number;
+  offsetX: number;
+  offsetY: number;
+  width: number;
+}
+
+function columnAt(x: number, y: number): KanbanColumn | null {
+  const el = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-column]');
+  return (el?.dataset.column as KanbanColumn | undefined) ?? null;
+}
+
+function dropTargets(issue: Issue): KanbanColumn[] {
+  return Array.from(new Set(customerTransitions(issue.kanban_column ?? 'triage').map((t) => t.to)));
+}
+
 // ── Kanban board ───────────────────────────────────────────────────────────
 
-function KanbanBoard({ issues }: { issues: Issue[] }) {
+function KanbanBoard({
+  columns, issues, lanes, collapsedLanes, pages, changedIds, onSeen, onDrop, onLoadMore, onToggleLane,
+}: {
+  columns: typeof KANBAN_COLUMNS;
+  issues: Issue[];
+  /** Swimlanes, top to bottom; a single lane keyed "all" when the board isn't grouped. */
+  lanes: IssueGroup[];
+  collapsedLanes: string[];
+  /** Paging state per column. */
+  pages: Record<string, PageState>;
+  changedIds: Set<string>;
+  onSeen: (id: string) => void;
+  onDrop: (issue: Issue, to: KanbanColumn) => void;
+  onLoadMore: (col: KanbanColumn) => void;
+  onToggleLane: (key: string) => void;
+}) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  // The click that ends a pointer drag must not open the card
+  const suppressClick = useRef(false);
+  const endPointerDrag = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => endPointerDrag.current?.(), []);
+
   const grouped = (col: KanbanColumn) =>
     issues.filter((i) => (i.kanban_column ?? 'triage') === col);
 
+  const targets = drag ? dropTargets(drag.issue) : [];
+
+  function handlePointerDown(e: React.PointerEvent<HTMLAnchorElement>, issue: Issue) {
+    if (e.button !== 0 || drag) return;
+    const pointerId = e.pointerId;
+    const isTouch = e.pointerType === 'touch';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const start = { x: e.clientX, y: e.clientY };
+    let active = false;
+    const holdTimer = isTouch ? setTimeout(activate, TOUCH_HOLD_MS) : null;
+
+    function activate() {
+      active = true;
+      setDrag({
+        issue,
+        mode: 'pointer',
+        over: null,
+        x: start.x,
+        y: start.y,
+        offsetX: start.x - rect.left,
+        offsetY: start.y - rect.top,
+        width: rect.width,
+      });
+    }
+
+    function onMove(ev: PointerEvent) {
+      if (ev.pointerId !== pointerId) return;
+      if (!active) {
+        const distance = Math.hypot(ev.clientX - start.x, ev.clientY - start.y);
+        if (distance < DRAG_THRESHOLD_PX) return;
+        // A touch that moves before the hold completes is a scroll
+        if (isTouch) return cleanup();
+        activate();
+      }
+      start.x = ev.clientX;
+      start.y = ev.clientY;
+      setDrag((d) => d && { ...d, x: ev.clientX, y: ev.clientY, over: columnAt(ev.clientX, ev.clientY) });
+    }
+
+    function onUp(ev: PointerEvent) {
+      if (ev.pointerId !== pointerId) return;
+      cleanup();
+      if (!active) return;
+      suppressClick.current = true;
+      setTimeout(() => { suppressClick.current = false; }, 0);
+      setDrag(null);
+      const col = columnAt(ev.clientX, ev.clientY);
+      if (col && col !== (issue.kanban_column ?? 'triage')) onDrop(issue, col);
+    }
+
+    function onCancel(ev: PointerEvent) {
+      if (ev.pointerId !== pointerId) return;
+      cleanup();
+      if (active) setDrag(null);
+    }
+
+    // Once a touch drag is under way, stop the page scrolling underneath it
+    function onTouchMove(ev: TouchEvent) {
+      if (active) ev.preventDefault();
+    }
+
+    function cleanup() {
+      if (holdTimer) clearTimeout(holdTimer);
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onCancel);
+      window.removeEventListener('touchmove', onTouchMove);
+      endPointerDrag.current = null;
+    }
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onCancel);
+    window.addEventListener('touchmove', onTouchMove, { passive: false });
+    endPointerDrag.current = cleanup;
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLAnchorElement>, issue: Issue) {
+    const label = ticketLabel(issue);
+    const options = dropTargets(issue);
+
+    if (drag?.mode !== 'keyboard' || drag.issue.id !== issue.id) {
+      if (e.key !== ' ' || drag) return;
+      e.preventDefault();
+      setDrag({ issue, mode: 'keyboard', over: options[0], x: 0, y: 0, offsetX: 0, offsetY: 0, width: 0 });
+      setAnnouncement(
+        `Picked up ${label}. ${KANBAN_LABEL[options[0]]} selected. ` +
+        'Use the arrow keys to choose a column, Enter to drop, Escape to cancel.'
+      );
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+      case 'ArrowLeft':
+      case 'ArrowUp': {
+        e.preventDefault();
+        const step = e.key === 'ArrowRight' || e.key === 'ArrowDown' ? 1 : -1;
+        const idx = drag.over ? options.indexOf(drag.over) : -1;
+        const next = options[(idx + step + options.length) % options.length];
+        setDrag({ ...drag, over: next });
+        setAnnouncement(`${KANBAN_LABEL[next]} selected.`);
+        break;
+      }
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        setDrag(null);
+        if (drag.over) {
+          setAnnouncement(`Dropped ${label} in ${KANBAN_LABEL[drag.over]}.`);
+          onDrop(issue, drag.over);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setDrag(null);
+        setAnnouncement(`Cancelled. ${label} stays in ${KANBAN_LABEL[issue.kanban_column ?? 'triage']}.`);
+        break;
+      case 'Tab':
+        setDrag(null);
+        break;
+    }
+  }
+
+  const laned = !(lanes.length === 1 && lanes[0].key === 'all');
+
+  function dropHighlight(col: KanbanColumn): string {
+    if (!drag) return '';
+    if (drag.over === col && targets.includes(col)) return 'bg-blue-500/10 ring-2 ring-blue-400';
+    if (targets.includes(col)) return 'bg-blue-500/5 ring-1 ring-blue-500/40';
+    return col === (drag.issue.kanban_column ?? 'triage') ? '' : 'opacity-50';
+  }
+
+  function loadMoreButton(col: KanbanColumn) {
+    const page = pages[col];
+    if (!page || !(page.next || page.error)) return null;
+    return (
+      <button
+        onClick={() => onLoadMore(col)}
+        disabled={page.loading}
+        className={`flex items-center justify-center gap-1.5 rounded-lg py-2 text-xs transition disabled:opacity-60 ${
+          page.error ? 'text-red-400 hover:text-red-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+        }`}
+      >
+        {page.loading && <Loader2 className="w-3 h-3 animate-spin" />}
+        {page.error ? 'Couldn’t load — retry' : 'Load more'}
+      </button>
+    );
+  }
+
+  function dragPropsFor(issue: Issue): React.HTMLAttributes<HTMLAnchorElement> | undefined {
+    if (dropTargets(issue).length === 0) return undefined;
+    return {
+      onPointerDown: (e) => handlePointerDown(e, issue),
+      onKeyDown: (e) => handleKeyDown(e, issue),
+      onClickCapture: (e) => {
+        if (suppressClick.current) {
+          e.preventDefault();
+          e.stopPropagation();
+        }
+      },
+      onContextMenu: (e) => {
+        if (drag) e.preventDefault();
+      },
+      'aria-roledescription': 'draggable card',
+      'aria-describedby': 'kanban-drag-help',
+    };
+  }
+
   return (
-    <div className="flex gap-3 overflow-x-auto pb-4 min-h-[600px]">
-      {KANBAN_COLUMNS.map(({ col, label, color, dot }) => {
-        const cards = grouped(col);
-        return (
-          <div key={col} className="flex-shrink-0 w-60">
-            {/* Column header */}
-            <div className={`flex items-center gap-2 mb-2 pb-2 border-b ${color}`}>
-              <span className={`w-2 h-2 rounded-full ${dot}`} />
-              <span className="text-xs font-semibold text-slate-300">{label}</span>
-              <span className="ml-auto text-xs text-slate-500 tabular-nums">{cards.length}</span>
-            </div>
+    <>
+      <p id="kanban-drag-help" className="sr-only">
+        Press Space to pick the card up, the arrow keys to choose a column and Enter to drop it.
+      </p>
+      <div aria-live="assertive" className="sr-only">{announcement}</div>
+
+      <div className="overflow-x-auto pb-4 min-h-[600px]">
+        <div className="flex flex-col gap-2 w-max min-w-full">
+          {/* Column headers */}
+          <div className="flex gap-3">
+            {columns.map(({ col, label, color, dot }) => {
+              const page = pages[col];
+              const count = grouped(col).length;
+              return (
+                <div key={col} data-column={col} className="flex-shrink-0 w-60">
+                  <div className={`flex items-center gap-2 pb-2 border-b ${color}`}>
+                    <span className={`w-2 h-2 rounded-full ${dot}`} />
+                    <span className="text-xs font-semibold text-slate-300">{label}</span>
+                    <span className="ml-auto text-xs text-slate-500 tabular-nums">
+                      {page?.next && page.total !== null ? `${count} of ${page.total}` : count}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {laned && lanes.length === 0 && (
+            <p className="py-10 text-center text-sm text-slate-600">No issues.</p>
+          )}
 
-            {/* Cards */}
-            <div className="flex flex-col gap-2">
-              {cards.length === 0 && (
-                <div className="text-center py-6 text-slate-600 text-xs">—</div>
-              )}
-              {cards.map((issue) => (
-                <IssueCard key={issue.id} issue={issue} />
+          {lanes.map((lane) => {
+            const collapsed = laned && collapsedLanes.includes(lane.key);
+            return (
+              <section key={lane.key} className={laned ? 'pt-2 border-t border-slate-800' : 'pt-1'}>
+                {laned && (
+                  <button
+                    onClick={() => onToggleLane(lane.key)}
+                    aria-expanded={!collapsed}
+                    className="sticky left-0 flex items-center gap-1.5 mb-2 text-xs font-semibold text-slate-300 hover:text-white transition"
+                  >
+                    {collapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                    {lane.label}
+                    <span className="font-normal text-slate-500 tabular-nums">{lane.issues.length}</span>
+                  </button>
+                )}
+                <div className="flex gap-3">
+                  {columns.map(({ col }) => {
+                    const cards = lane.issues.filter((i) => (i.kanban_column ?? 'triage') === col);
+                    if (collapsed) {
+                      return (
+                        <div
+                          key={col}
+                          data-column={col}
+                          className={`flex-shrink-0 w-60 rounded-lg px-3 py-1.5 text-xs tabular-nums transition ${
+                            cards.length > 0 ? 'bg-slate-800/60 text-slate-400' : 'text-slate-700'
+                          } ${dropHighlight(col)}`}
+                        >
+                          {cards.length > 0 ? `${cards.length} ${cards.length === 1 ? 'card' : 'cards'}` : '—'}
+                        </div>
+                      );
+                    }
+                    return (
+                      <div
+                        key={col}
+                        data-column={col}
+                        className={`flex-shrink-0 w-60 flex flex-col gap-2 rounded-lg transition ${
+                          laned ? 'min-h-[60px]' : 'min-h-[80px]'
+                        } ${dropHighlight(col)}`}
+                      >
+                        {cards.length === 0 && (
+                          <div className="text-center py-6 text-slate-600 text-xs">—</div>
+                        )}
+                        {cards.map((issue) => (
+                          <IssueCard
+                            key={issue.id}
+                            issue={issue}
+                            changed={changedIds.has(issue.id)}
+                            onSeen={onSeen}
+                            dragSource={drag?.issue.id === issue.id}
+                            dragProps={dragPropsFor(issue)}
+                          />
+                        ))}
+                        {!laned && loadMoreButton(col)}
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })}
+
+          {/* With lanes, a column's next page can land in any of them */}
+          {laned && (
+            <div className="flex gap-3 pt-2 border-t border-slate-800">
+              {columns.map(({ col }) => (
+                <div key={col} className="flex-shrink-0 w-60 flex flex-col">{loadMoreButton(col)}</div>
               ))}
             </div>
+          )}
+        </div>
+      </div>
+
+      {/* Ghost card following the pointer */}
+      {drag?.mode === 'pointer' && (
+        <div
+          className="fixed z-50 pointer-events-none rotate-2 shadow-2xl shadow-black/50"
+          style={{ left: drag.x - drag.offsetX, top: drag.y - drag.offsetY, width: drag.width }}
+        >
+          <div className="bg-slate-800 border border-blue-500 rounded-lg p-3">
+            {drag.issue.ticket_number && (
+              <div className="text-[10px] text-slate-500 font-mono mb-1">{ticketLabel(drag.issue)}</div>
+            )}
+            <p className="text-sm text-white font-medium leading-snug line-clamp-2">{drag.issue.title}</p>
           </div>
-        );
-      })}
-    </div>
+        </div>
+      )}
+    </>
   );
 }
 
-// ── List view (legacy) ─────────────────────────────────────────────────────
+// ── List view ──────────────────────────────────────────────────────────────
 
 const STATUS_BADGE: Record<string, string> = {
   triage: 'bg-slate-500/10 text-slate-300 border border-slate-600/30',
@@ -127,9 +591,60 @@ const KANBAN_LABEL: Record<string, string> = {
   dismissed: 'Dismissed',
 };
 
-function ListView({ issues, sites }: { issues: Issue[]; sites: Site[] }) {
-  const siteMap = Object.fromEntries(sites.map((s) => [s.id, s.name ?? s.url]));
-  if (issues.length === 0) {
+// Rows are a fixed height so the list can be virtualized
+const LIST_ROW_HEIGHT = 84;
+const LIST_GROUP_HEIGHT = 32;
+const LIST_ROW_GAP = 12;
+
+type ListRow =
+  | { kind: 'group'; key: string; label: string; count: number }
+  | { kind: 'issue'; issue: Issue };
+
+function listRows(issues: Issue[], group: IssueGrouping, siteMap: Record<string, string>): ListRow[] {
+  return groupIssues(issues, group, siteMap).flatMap((g): ListRow[] => [
+    ...(group === 'none' ? [] : [{ kind: 'group' as const, key: g.key, label: g.label, count: g.issues.length }]),
+    ...g.issues.map((issue): ListRow => ({ kind: 'issue', issue })),
+  ]);
+}
+
+function rowHeight(row: ListRow): number {
+  return row.kind === 'group' ? LIST_GROUP_HEIGHT : LIST_ROW_HEIGHT;
+}
+
+function ListView({ issues, sites, group, page, selectedIds, onSelectionChange, onLoadMore }: {
+  issues: Issue[];
+  sites: Site[];
+  group: IssueGrouping;
+  page: PageState | undefined;
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  onLoadMore: () => void;
+}) {
+  const siteMap = useMemo(
+    (): Record<string, string> => Object.fromEntries(sites.map((s) => [s.id, s.name ?? s.url])),
+    [sites]
+  );
+  const rows = useMemo(() => listRows(issues, group, siteMap), [issues, group, siteMap]);
+  // The last row clicked without shift, where a shift-click range starts
+  const anchor = useRef<string | null>(null);
+
+  function toggle(issue: Issue, shiftKey: boolean) {
+    const next = new Set(selectedIds);
+    const on = !selectedIds.has(issue.id);
+    const order = rows.flatMap((row) => (row.kind === 'issue' ? [row.issue.id] : []));
+    const from = anchor.current ? order.indexOf(anchor.current) : -1;
+    if (shiftKey && from >= 0) {
+      const to = order.indexOf(issue.id);
+      order.slice(Math.min(from, to), Math.max(from, to) + 1).forEach((id) => (on ? next.add(id) : next.delete(id)));
+    } else {
+      if (on) next.add(issue.id);
+      else next.delete(issue.id);
+      anchor.current = issue.id;
+    }
+    onSelectionChange(next);
+  }
+
+  if (issues.length === 0 && !page?.error) {
     return (
       <div className="text-center py-20 text-slate-500">
         No issues found.
@@ -137,120 +652,193 @@ function ListView({ issues, sites }: { issues: Issue[]; sites: Site[] }) {
     );
   }
   return (
-    <div className="flex flex-col gap-3">
-      {issues.map((issue) => {
-        const col = issue.kanban_column ?? 'triage';
-        return (
-          <Link href={`/issues/${issue.id}`} key={issue.id}>
-            <div className="bg-slate-800 border border-slate-700 hover:border-slate-500 rounded-xl p-4 transition group">
-              <div className="flex items-start justify-between gap-3">
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2 mb-1">
-                    {issue.ticket_number && (
-                      <span className="text-[10px] text-slate-500 font-mono">
-                        TKT-{String(issue.ticket_number).padStart(3, '0')}
-                      </span>
-                    )}
-                    <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium ${STATUS_BADGE[col]}`}>
-                      {KANBAN_LABEL[col]}
-                    </span>
-                    <span className={`w-1.5 h-1.5 rounded-full ${PRIORITY_DOT[issue.priority]}`} title={issue.priority} />
+    <>
+      <VirtualList
+        items={rows}
+        rowHeight={rowHeight}
+        gap={LIST_ROW_GAP}
+        getKey={(row) => (row.kind === 'group' ? `group:${row.key}` : row.issue.id)}
+        // After a failure only the Retry button asks again, not every re-render
+        onEndReached={page?.next && !page.error ? onLoadMore : undefined}
+        renderRow={(row) => {
+          if (row.kind === 'group') {
+            return (
+              <h2 className="flex items-end h-full gap-2 text-xs font-semibold text-slate-400 uppercase tracking-wide">
+                {row.label}
+                <span className="font-normal text-slate-600 tabular-nums">{row.count}</span>
+              </h2>
+            );
+          }
+          const issue = row.issue;
+          const col = issue.kanban_column ?? 'triage';
+          const selected = selectedIds.has(issue.id);
+          return (
+            <div className="flex items-center gap-3 h-full">
+              <input
+                type="checkbox"
+                checked={selected}
+                readOnly
+                onClick={(e) => toggle(issue, e.shiftKey)}
+                className="accent-blue-500 flex-shrink-0"
+                aria-label={`Select ${ticketLabel(issue)}`}
+              />
+              <Link href={`/issues/${issue.id}`} className="block h-full flex-1 min-w-0">
+                <div className={`h-full bg-slate-800 border ${selected ? 'border-blue-500/60' : 'border-slate-700 hover:border-slate-500'} rounded-xl p-4 transition group`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        {issue.ticket_number && (
+                          <span className="text-[10px] text-slate-500 font-mono">
+                            TKT-{String(issue.ticket_number).padStart(3, '0')}
+                          </span>
+                        )}
+                        <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium ${STATUS_BADGE[col]}`}>
+                          {KANBAN_LABEL[col]}
+                        </span>
+                        <span className={`w-1.5 h-1.5 rounded-full ${PRIORITY_DOT[issue.priority]}`} title={issue.priority} />
+                      </div>
+                      <h3 className="text-sm font-semibold text-white group-hover:text-blue-300 transition truncate">
+                        {issue.title}
+                      </h3>
+                      {siteMap[issue.site_id] && (
+                        <p className="text-[11px] text-slate-500 mt-0.5 truncate">{siteMap[issue.site_id]}</p>
+                      )}
+                    </div>
+                    <div className="text-[10px] text-slate-600 flex-shrink-0">
+                      {new Date(issue.created_at).toLocaleDateString()}
+                    </div>
                   </div>
-                  <h3 className="text-sm font-semibold text-white group-hover:text-blue-300 transition truncate">
-                    {issue.title}
-                  </h3>
-                  {siteMap[issue.site_id] && (
-                    <p className="text-[11px] text-slate-500 mt-0.5">{siteMap[issue.site_id]}</p>
-                  )}
                 </div>
-                <div className="text-[10px] text-slate-600 flex-shrink-0">
-                  {new Date(issue.created_at).toLocaleDateString()}
-                </div>
-              </div>
+              </Link>
             </div>
-          </Link>
-        );
-      })}
-    </div>
+          );
+        }}
+      />
+      {page?.loading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-500" />
+        </div>
+      )}
+      {page?.error && !page.loading && (
+        <div className="flex items-center justify-center gap-3 py-6 text-sm text-red-400">
+          {page.error}
+          <button onClick={onLoadMore} className="text-slate-300 hover:text-white underline underline-offset-2">
+            Retry
+          </button>
+        </div>
+      )}
+    </>
   );
 }
 
-// ── New issue modal ─────────────────────────────────────────────────────────
+// ── Filter bar ─────────────────────────────────────────────────────────────
 
-function NewIssueModal({ sites, onClose, onCreated }: {
+const SEARCH_DEBOUNCE_MS = 300;
+
+const filterControl = 'bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white';
+
+function FilterBar({ filters, sites, onChange }: {
+  filters: IssueFilters;
   sites: Site[];
-  onClose: () => void;
-  onCreated: (issue: Issue) => void;
+  onChange: (patch: Partial<IssueFilters>, opts?: { replace?: boolean }) => void;
 }) {
-  const [siteId, setSiteId] = useState(sites[0]?.id ?? '');
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [priority, setPriority] = useState<Issue['priority']>('medium');
-  const [submitting, setSubmitting] = useState(false);
-  const [error, setError] = useState('');
-
-  async function submit(e: React.FormEvent) {
-    e.preventDefault();
-    if (!siteId || !title.trim()) return;
-    setSubmitting(true);
-    setError('');
-    try {
-      const res = await api.post<Issue>('/api/v1/issues', { site_id: siteId, title, description, priority });
-      onCreated(res.data);
-    } catch {
-      setError('Failed to create issue.');
-    } finally {
-      setSubmitting(false);
+  // Typing updates the URL after a pause rather than per keystroke
+  const [query, setQuery] = useState(filters.q);
+  const lastSearched = useRef(filters.q);
+
+  // Back/forward changed the search under us
+  useEffect(() => {
+    if (filters.q !== lastSearched.current) {
+      lastSearched.current = filters.q;
+      setQuery(filters.q);
     }
-  }
+  }, [filters.q]);
+
+  useEffect(() => {
+    if (query === lastSearched.current) return;
+    const timer = setTimeout(() => {
+      lastSearched.current = query;
+      // Replaced, not pushed, so back doesn't step through every word typed
+      onChange({ q: query }, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, onChange]);
+
+  const active = activeFilterCount(filters);
 
   return (
-    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md p-6">
-        <h2 className="text-lg font-bold text-white mb-4">New Issue</h2>
-        <form onSubmit={submit} className="flex flex-col gap-4">
-          <div>
-            <label className="block text-xs text-slate-400 mb-1">Site</label>
-            <select value={siteId} onChange={e => setSiteId(e.target.value)}
-              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
-              {sites.map(s => <option key={s.id} value={s.id}>{s.name ?? s.url}</option>)}
-            </select>
-          </div>
-          <div>
-            <label className="block text-xs text-slate-400 mb-1">Title</label>
-            <input value={title} onChange={e => setTitle(e.target.value)} required
-              placeholder="Brief description of the issue"
-              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500" />
-          </div>
-          <div>
-            <label className="block text-xs text-slate-400 mb-1">Details (optional)</label>
-            <textarea value={description} onChange={e => setDescription(e.target.value)} rows={3}
-              placeholder="Steps to reproduce, expected vs actual behaviour..."
-              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none" />
-          </div>
-          <div>
-            <label className="block text-xs text-slate-400 mb-1">Priority</label>
-            <select value={priority} onChange={e => setPriority(e.target.value as Issue['priority'])}
-              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
-              {['low', 'medium', 'high', 'critical'].map(p => (
-                <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
-              ))}
-            </select>
-          </div>
-          {error && <p className="text-sm text-red-400">{error}</p>}
-          <div className="flex gap-3 justify-end">
-            <button type="button" onClick={onClose}
-              className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
-              Cancel
-            </button>
-            <button type="submit" disabled={submitting || !title.trim()}
-              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition">
-              {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
-              Create Issue
-            </button>
-          </div>
-        </form>
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <div className="relative flex-1 min-w-[200px] max-w-sm">
+        <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search title, description or TKT-…"
+          aria-label="Search issues"
+          className={`${filterControl} w-full pl-9 placeholder-slate-500`}
+        />
+      </div>
+
+      {sites.length > 1 && (
+        <select value={filters.site} onChange={(e) => onChange({ site: e.target.value })}
+          aria-label="Site" className={filterControl}>
+          <option value="">All sites</option>
+          {sites.map((s) => <option key={s.id} value={s.id}>{s.name ?? s.url}</option>)}
+        </select>
+      )}
+
+      <select value={filters.priority} onChange={(e) => onChange({ priority: e.target.value as IssueFilters['priority'] })}
+        aria-label="Priority" className={`${filterControl} capitalize`}>
+        <option value="">Any priority</option>
+        {PRIORITY_OPTIONS.map((p) => <option key={p} value={p}>{p}</option>)}
+      </select>
+
+      <select value={filters.status} onChange={(e) => onChange({ status: e.target.value as IssueFilters['status'] })}
+        aria-label="Status" className={filterControl}>
+        <option value="">Any status</option>
+        {(Object.keys(STATUS_LABELS) as Issue['status'][]).map((st) => (
+          <option key={st} value={st}>{STATUS_LABELS[st]}</option>
+        ))}
+      </select>
+
+      <select value={filters.column} onChange={(e) => onChange({ column: e.target.value as IssueFilters['column'] })}
+        aria-label="Column" className={filterControl}>
+        <option value="">Any column</option>
+        {Object.keys(KANBAN_LABEL).map((col) => <option key={col} value={col}>{KANBAN_LABEL[col]}</option>)}
+      </select>
+
+      <select value={filters.agent} onChange={(e) => onChange({ agent: e.target.value as IssueFilters['agent'] })}
+        aria-label="Agent" className={filterControl}>
+        <option value="">Any agent</option>
+        {AGENT_ROLES.map((role) => (
+          <option key={role} value={role}>With {AGENT_FILTER_LABELS[role]}</option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1.5 text-xs text-slate-500">
+        <input type="date" value={filters.from} max={filters.to || undefined}
+          onChange={(e) => onChange({ from: e.target.value })}
+          aria-label="Created from" className={`${filterControl} [color-scheme:dark]`} />
+        –
+        <input type="date" value={filters.to} min={filters.from || undefined}
+          onChange={(e) => onChange({ to: e.target.value })}
+          aria-label="Created to" className={`${filterControl} [color-scheme:dark]`} />
       </div>
+
+      {active > 0 && (
+        <button
+          onClick={() => {
+            lastSearched.current = '';
+            setQuery('');
+            onChange(EMPTY_FILTERS);
+          }}
+          className="flex items-center gap-1 px-2 py-2 text-sm text-slate-400 hover:text-white transition"
+        >
+          <X className="w-3.5 h-3.5" />
+          Clear {active === 1 ? 'filter' : `${active} filters`}
+        </button>
+      )}
     </div>
   );
 }
@@ -259,41 +847,209 @@ function NewIssueModal({ sites, onClose, onCreated }: {
 
 function IssuesContent() {
   const searchParams = useSearchParams();
-  const siteFilter = searchParams.get('site') ?? '';
   const router = useRouter();
+  const view = useMemo(() => parseIssueView(searchParams), [searchParams]);
 
-  const [issues, setIssues] = useState<Issue[]>([]);
   const [sites, setSites] = useState<Site[]>([]);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<'kanban' | 'list'>('kanban');
   const [showNew, setShowNew] = useState(false);
-  const [filterSite, setFilterSite] = useState(siteFilter);
+  // Cards that changed since the user last looked
+  const [changedIds, setChangedIds] = useState<Set<string>>(new Set());
+  // A UAT verdict dropped on the board, waiting for its feedback
+  const [pendingMove, setPendingMove] = useState<{ issue: Issue; move: CustomerTransition } | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [moveError, setMoveError] = useState('');
+  // Read once, before this visit's first save overwrites it
+  const seenSnapshot = useRef<BoardSnapshot | null | undefined>(undefined);
+  const [collapsedLanes, setCollapsedLanes] = useState<CollapsedLanes>({});
+  // List rows picked for a bulk action
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Arriving at a bare /issues opens the user's default view instead
+  const [openingDefault, setOpeningDefault] = useState(() => searchParams.toString() === '');
 
   useEffect(() => {
-    Promise.all([
-      api.get<Issue[]>('/api/v1/issues'),
-      api.get<Site[]>('/api/v1/sites'),
-    ]).then(([issuesRes, sitesRes]) => {
-      setIssues(issuesRes.data);
-      setSites(sitesRes.data);
-    }).finally(() => setLoading(false));
+    if (!openingDefault) return;
+    loadSavedViews()
+      .then(({ views, prefs }) => views.find((v) => v.id === prefs.default_view_id)?.query || null)
+      // No views to choose from; the unfiltered board it is
+      .catch(() => null)
+      .then((query) => {
+        const group = loadGrouping();
+        if (query) router.replace(`/issues?${query}`);
+        else if (group !== 'none') router.replace(issuesHref({ group }));
+      })
+      .finally(() => setOpeningDefault(false));
+  }, [openingDefault, router]);
+
+  // Remember whatever grouping the page shows, however it was chosen: the
+  // display menu, a saved or pinned view, or a shared link
+  useEffect(() => {
+    if (!openingDefault) saveGrouping(view.group);
+  }, [openingDefault, view.group]);
+
+  // The board pages each column separately; the list pages everything at once
+  const queries = useMemo((): Record<string, IssueListParams> => {
+    if (openingDefault) return {};
+    const params: IssueListParams = { ...issueListParams(view), sort: view.sort };
+    if (view.layout === 'list') {
+      // So each group's issues arrive together rather than trickling in page by page
+      if (view.group !== 'none') params.group_by = view.group === 'agent' ? 'agent_role' : view.group;
+      return { all: { ...params, limit: LIST_PAGE_SIZE } };
+    }
+    return Object.fromEntries(
+      visibleColumns(view).map(({ col }) => [col, { ...params, kanban_column: col, limit: COLUMN_PAGE_SIZE }])
+    );
+  }, [view, openingDefault]);
+
+  const handlePage = useCallback((items: Issue[]) => {
+    if (seenSnapshot.current === undefined) seenSnapshot.current = loadSeenSnapshot();
+    const changed = changedSince(seenSnapshot.current, items);
+    if (changed.size > 0) {
+      setChangedIds((ids) => new Set(Array.from(ids).concat(Array.from(changed))));
+    }
+  }, []);
+
+  const { issues, setIssues, pages, loading: issuesLoading, loadMore } = useIssuePages(queries, handlePage);
+  const loadMoreList = useCallback(() => loadMore('all'), [loadMore]);
+
+  // A different view is a different set of rows
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [searchParams]);
+
+  useEffect(() => {
+    sdk.sites.list().then(setSites).finally(() => setLoading(false));
+    setCollapsedLanes(loadCollapsedLanes());
   }, []);
 
-  const filtered = filterSite
-    ? issues.filter(i => i.site_id === filterSite)
-    : issues;
+  // Whatever is on screen counts as seen next time round
+  useEffect(() => {
+    if (!issuesLoading) saveSeenSnapshot(issues);
+  }, [issues, issuesLoading]);
+
+  const upsertIssue = useCallback((updated: Issue) => {
+    if (!matchesIssueFilters(updated, view)) {
+      // It no longer fits the filters, or never did
+      setIssues((prev) => prev.filter((i) => i.id !== updated.id));
+      return;
+    }
+    setIssues((prev) =>
+      prev.some((i) => i.id === updated.id)
+        ? prev.map((i) => (i.id === updated.id ? updated : i))
+        : [updated, ...prev]
+    );
+    setChangedIds((ids) => new Set(ids).add(updated.id));
+  }, [view, setIssues]);
+
+  useRealtimeChannel('board', (event: WsEvent) => {
+    switch (event.type) {
+      case 'issue_created':
+      case 'issue_updated':
+      case 'status_update': {
+        const updated = event.issue as Issue | undefined;
+        if (updated) {
+          upsertIssue(updated);
+        } else if (typeof event.issue_id === 'string') {
+          // Slim events only carry the id — fetch the rest
+          sdk.issues.get(event.issue_id).then(upsertIssue).catch(() => {});
+        }
+        break;
+      }
+    }
+  });
+
+  function handleDrop(issue: Issue, to: KanbanColumn) {
+    const move = customerTransition(issue.kanban_column ?? 'triage', to);
+    if (!move) return;
+    if (move.verdict) {
+      setPendingMove({ issue, move });
+    } else {
+      moveIssue(issue, move);
+    }
+  }
+
+  // The reject dialog offers the ticket's screenshots as evidence
+  useEffect(() => {
+    setPendingAttachments([]);
+    if (pendingMove?.move.verdict !== 'rejected') return;
+    let cancelled = false;
+    sdk.issues.listAttachments(pendingMove.issue.id)
+      .then((list) => { if (!cancelled) setPendingAttachments(list); })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingMove]);
+
+  // Optimistic: the card moves at once and goes back if the API says no
+  async function moveIssue(issue: Issue, move: CustomerTransition, request: TransitionRequest = { to_col: move.to }) {
+    setMoveError('');
+    setIssues(prev => prev.map(i => (i.id === issue.id ? { ...i, kanban_column: move.to } : i)));
+    try {
+      const updated = await sdk.issues.transition(issue.id, request);
+      setIssues(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+    } catch (e: unknown) {
+      // Only undo our own move — a realtime update may have superseded it
+      setIssues(prev => prev.map(i =>
+        i.id === issue.id && i.kanban_column === move.to ? issue : i
+      ));
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      setMoveError(typeof d === 'string' ? d : `Couldn't move ${ticketLabel(issue)}. Please try again.`);
+    }
+  }
+
+  function markSeen(id: string) {
+    setChangedIds((ids) => {
+      if (!ids.has(id)) return ids;
+      const next = new Set(ids);
+      next.delete(id);
+      return next;
+    });
+  }
+
+  const updateView = useCallback((patch: Partial<IssueViewConfig>, { replace = false } = {}) => {
+    const href = issuesHref({ ...view, ...patch });
+    if (replace) {
+      router.replace(href, { scroll: false });
+    } else {
+      router.push(href, { scroll: false });
+    }
+  }, [view, router]);
+
+  // The server filtered the pages; this catches cards moved out of the filters since
+  const filtered = issues.filter(i => matchesIssueFilters(i, view));
+  const total = Object.values(pages).reduce((n, p) => n + (p.total ?? 0), 0);
 
   // Exclude dismissed from kanban (show in list only)
   const activeIssues = filtered.filter(i => (i.kanban_column ?? 'triage') !== 'dismissed');
   const allIssues = filtered;
 
+  const siteNames: Record<string, string> = Object.fromEntries(sites.map((s) => [s.id, s.name ?? s.url]));
+  const lanes = groupIssues(activeIssues, view.group, siteNames);
+
+  function toggleLane(key: string) {
+    const current = collapsedLanes[view.group] ?? [];
+    const next = {
+      ...collapsedLanes,
+      [view.group]: current.includes(key) ? current.filter((k) => k !== key) : [...current, key],
+    };
+    setCollapsedLanes(next);
+    saveCollapsedLanes(next);
+  }
+
+  // Results of a bulk action; anything now outside the filters drops out via `filtered`
+  function applyBulkResults(updated: Issue[]) {
+    const byId = new Map(updated.map((i) => [i.id, i]));
+    setIssues(prev => prev.map(i => byId.get(i.id) ?? i));
+  }
+
   function handleCreated(issue: Issue) {
     setIssues(prev => [issue, ...prev]);
     setShowNew(false);
     router.push(`/issues/${issue.id}`);
   }
 
-  if (loading) {
+  if (loading || openingDefault) {
     return (
       <div className="flex justify-center py-20">
         <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
@@ -306,33 +1062,58 @@ function IssuesContent() {
       {showNew && sites.length > 0 && (
         <NewIssueModal sites={sites} onClose={() => setShowNew(false)} onCreated={handleCreated} />
       )}
+      {pendingMove?.move.verdict === 'approved' && (
+        <ApproveDialog
+          title={pendingMove.move.label}
+          submitting={false}
+          error=""
+          onCancel={() => setPendingMove(null)}
+          onConfirm={(body) => {
+            moveIssue(pendingMove.issue, pendingMove.move, approvalTransition(pendingMove.move.to, body));
+            setPendingMove(null);
+          }}
+        />
+      )}
+      {pendingMove?.move.verdict === 'rejected' && (
+        <RejectDialog
+          title={pendingMove.move.label}
+          attempt={pendingMove.issue.dev_fail_count + 2}
+          attachments={pendingAttachments}
+          submitting={false}
+          error=""
+          onCancel={() => setPendingMove(null)}
+          onConfirm={(body) => {
+            moveIssue(pendingMove.issue, pendingMove.move, rejectionTransition(pendingMove.move.to, body));
+            setPendingMove(null);
+          }}
+        />
+      )}
 
       {/* Header */}
       <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
         <div>
           <h1 className="text-2xl font-bold text-white">Issues</h1>
-          <p className="text-slate-400 text-sm mt-1">{filtered.length} total</p>
+          <p className="text-slate-400 text-sm mt-1">
+            {issuesLoading ? '\u00a0' : `${total} ${activeFilterCount(view) > 0 ? 'matching' : 'total'}`}
+          </p>
         </div>
 
         <div className="flex items-center gap-2">
-          {/* Site filter */}
-          {sites.length > 1 && (
-            <select value={filterSite} onChange={e => setFilterSite(e.target.value)}
-              className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white">
-              <option value="">All sites</option>
-              {sites.map(s => <option key={s.id} value={s.id}>{s.name ?? s.url}</option>)}
-            </select>
-          )}
+          <RealtimeStatus />
+
+          <SavedViewsMenu view={view} onApply={(v) => router.push(issuesHref(v), { scroll: false })} />
+          <DisplayMenu view={view} columns={KANBAN_COLUMNS} onChange={updateView} />
+          {sites.length > 0 && <ExportMenu view={view} sites={sites} />}
 
           {/* View toggle */}
           <div className="flex bg-slate-800 border border-slate-700 rounded-lg p-1">
-            <button onClick={() => setView('kanban')}
-              className={`p-1.5 rounded transition ${view === 'kanban' ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            <button onClick={() => updateView({ layout: 'kanban' })}
+              className={`p-1.5 rounded transition ${view.layout === 'kanban' ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-white'}`}
               title="Kanban view">
               <Kanban className="w-4 h-4" />
             </button>
-            <button onClick={() => setView('list')}
-              className={`p-1.5 rounded transition ${view === 'list' ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            <button onClick={() => updateView({ layout: 'list' })}
+              className={`p-1.5 rounded transition ${view.layout === 'list' ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-white'}`}
               title="List view">
               <LayoutList className="w-4 h-4" />
             </button>
@@ -358,11 +1139,54 @@ function IssuesContent() {
         </div>
       )}
 
+      {sites.length > 0 && <FilterBar filters={view} sites={sites} onChange={updateView} />}
+
+      {moveError && (
+        <div className="flex items-center justify-between gap-3 mb-4 text-sm text-red-400 bg-red-900/20 border border-red-700 rounded-lg px-4 py-2">
+          <span>{moveError}</span>
+          <button onClick={() => setMoveError('')} className="text-red-400 hover:text-red-200" aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Board / list */}
       {sites.length > 0 && (
-        view === 'kanban'
-          ? <KanbanBoard issues={activeIssues} />
-          : <ListView issues={allIssues} sites={sites} />
+        issuesLoading
+          ? <div className="flex justify-center py-20">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+            </div>
+          : view.layout === 'kanban'
+            ? <KanbanBoard
+                columns={visibleColumns(view)}
+                issues={activeIssues}
+                lanes={lanes}
+                collapsedLanes={collapsedLanes[view.group] ?? []}
+                onToggleLane={toggleLane}
+                pages={pages}
+                changedIds={changedIds}
+                onSeen={markSeen}
+                onDrop={handleDrop}
+                onLoadMore={loadMore}
+              />
+            : <>
+                <BulkActions
+                  issues={allIssues}
+                  selectedIds={selectedIds}
+                  sites={sites}
+                  onSelectionChange={setSelectedIds}
+                  onUpdated={applyBulkResults}
+                />
+                <ListView
+                  issues={allIssues}
+                  sites={sites}
+                  group={view.group}
+                  page={pages.all}
+                  selectedIds={selectedIds}
+                  onSelectionChange={setSelectedIds}
+                  onLoadMore={loadMoreList}
+                />
+              </>
       )}
     </>
   );
@@ -3,9 +3,10 @@
 import { useEffect, useState } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
-import { isAuthenticated, logout, getToken } from '@/lib/auth';
-import api from '@/lib/api';
-import type { Customer } from '@/types';
+import { isAuthenticated, logout, getToken, loginPath } from '@/lib/auth';
+import { usePermissions } from '@/lib/usePermissions';
+import { RealtimeProvider, RealtimeStatus } from '@/components/RealtimeProvider';
+import PinnedViews from './PinnedViews';
 import {
   LayoutDashboard,
   AlertTriangle,
@@ -22,44 +23,19 @@ const navItems = [
   { href: '/sites', label: 'Sites', icon: Globe },
 ];
 
-const ADMIN_DOMAIN = '@sitedoc.ai';
-
-function isAdminEmail(email: string): boolean {
-  if (email.toLowerCase().endsWith(ADMIN_DOMAIN)) return true;
-  const adminEmails = (process.env.NEXT_PUBLIC_ADMIN_EMAILS ?? '')
-    .split(',')
-    .map((e) => e.trim().toLowerCase())
-    .filter(Boolean);
-  return adminEmails.includes(email.toLowerCase());
-}
-
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
   const router = useRouter();
   const pathname = usePathname();
-  const [email, setEmail] = useState('');
   const [sidebarOpen, setSidebarOpen] = useState(false);
-
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { me, can, loading } = usePermissions();
+  const email = me?.email ?? '';
 
   useEffect(() => {
-    if (!isAuthenticated()) {
-      router.replace('/login');
-      return;
+    // If /me fails with 401 the interceptor handles redirect
+    if (!isAuthenticated() || (!loading && !me && !getToken())) {
+      router.replace(loginPath(pathname));
     }
-
-    // Fetch current user info
-    api
-      .get<Customer>('/api/v1/auth/me')
-      .then((res) => {
-        setEmail(res.data.email);
-        setIsAdmin(isAdminEmail(res.data.email));
-      })
-      .catch(() => {
-        // If /me fails with 401 the interceptor handles redirect
-        const token = getToken();
-        if (!token) router.replace('/login');
-      });
-  }, [router]);
+  }, [router, pathname, loading, me]);
 
   function handleLogout() {
     logout();
@@ -71,110 +47,115 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
   };
 
   return (
-    <div className="min-h-screen bg-slate-900 flex">
-      {/* Mobile overlay */}
-      {sidebarOpen && (
-        <div
-          className="fixed inset-0 bg-black/60 z-20 lg:hidden"
-          onClick={() => setSidebarOpen(false)}
-        />
-      )}
-
-      {/* Sidebar */}
-      <aside
-        className={`fixed top-0 left-0 h-full w-64 bg-slate-950 border-r border-slate-800 z-30 flex flex-col transform transition-transform duration-200 lg:translate-x-0 ${
-          sidebarOpen ? 'translate-x-0' : '-translate-x-full'
-        } lg:static lg:flex`}
-      >
-        {/* Logo */}
-        <div className="flex items-center justify-between px-6 py-5 border-b border-slate-800">
-          <Link href="/dashboard" className="text-xl font-bold text-white tracking-tight">
-            SiteDoc
-          </Link>
-          <button
+    <RealtimeProvider>
+      <div className="min-h-screen bg-slate-900 flex">
+        {/* Mobile overlay */}
+        {sidebarOpen && (
+          <div
+            className="fixed inset-0 bg-black/60 z-20 lg:hidden"
             onClick={() => setSidebarOpen(false)}
-            className="lg:hidden text-slate-400 hover:text-white"
-          >
-            <X className="w-5 h-5" />
-          </button>
-        </div>
-
-        {/* Nav */}
-        <nav className="flex-1 px-3 py-4 space-y-1">
-          {navItems.map(({ href, label, icon: Icon }) => (
-            <Link
-              key={href}
-              href={href}
+          />
+        )}
+
+        {/* Sidebar */}
+        <aside
+          className={`fixed top-0 left-0 h-full w-64 bg-slate-950 border-r border-slate-800 z-30 flex flex-col transform transition-transform duration-200 lg:translate-x-0 ${
+            sidebarOpen ? 'translate-x-0' : '-translate-x-full'
+          } lg:static lg:flex print:hidden`}
+        >
+          {/* Logo */}
+          <div className="flex items-center justify-between px-6 py-5 border-b border-slate-800">
+            <Link href="/dashboard" className="text-xl font-bold text-white tracking-tight">
+              SiteDoc
+            </Link>
+            <button
               onClick={() => setSidebarOpen(false)}
-              className={`flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${
-                isActive(href)
-                  ? 'bg-blue-600 text-white'
-                  : 'text-slate-400 hover:text-white hover:bg-slate-800'
-              }`}
+              className="lg:hidden text-slate-400 hover:text-white"
             >
-              <Icon className="w-4 h-4" />
-              {label}
-            </Link>
-          ))}
+              <X className="w-5 h-5" />
+            </button>
+          </div>
 
-          {isAdmin && (
-            <div className="pt-3 mt-1 border-t border-slate-800">
+          {/* Nav */}
+          <nav className="flex-1 px-3 py-4 space-y-1">
+            {navItems.map(({ href, label, icon: Icon }) => (
               <Link
-                href="/admin"
+                key={href}
+                href={href}
                 onClick={() => setSidebarOpen(false)}
                 className={`flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${
-                  isActive('/admin')
-                    ? 'bg-red-600 text-white'
-                    : 'text-red-400 hover:text-red-300 hover:bg-red-900/20'
+                  isActive(href)
+                    ? 'bg-blue-600 text-white'
+                    : 'text-slate-400 hover:text-white hover:bg-slate-800'
                 }`}
               >
-                <ShieldAlert className="w-4 h-4" />
-                Admin
+                <Icon className="w-4 h-4" />
+                {label}
               </Link>
+            ))}
+
+            <PinnedViews onNavigate={() => setSidebarOpen(false)} />
+
+            {can('admin.access') && (
+              <div className="pt-3 mt-1 border-t border-slate-800">
+                <Link
+                  href="/admin"
+                  onClick={() => setSidebarOpen(false)}
+                  className={`flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${
+                    isActive('/admin')
+                      ? 'bg-red-600 text-white'
+                      : 'text-red-400 hover:text-red-300 hover:bg-red-900/20'
+                  }`}
+                >
+                  <ShieldAlert className="w-4 h-4" />
+                  Admin
+                </Link>
+              </div>
+            )}
+          </nav>
+
+          {/* User / Logout */}
+          <div className="px-3 py-4 border-t border-slate-800">
+            <div className="px-3 py-2 mb-1">
+              <p className="text-xs text-slate-500 font-medium uppercase tracking-wide">Account</p>
+              <p className="text-sm text-slate-300 truncate mt-1">{email || '—'}</p>
             </div>
-          )}
-        </nav>
-
-        {/* User / Logout */}
-        <div className="px-3 py-4 border-t border-slate-800">
-          <div className="px-3 py-2 mb-1">
-            <p className="text-xs text-slate-500 font-medium uppercase tracking-wide">Account</p>
-            <p className="text-sm text-slate-300 truncate mt-1">{email || '—'}</p>
+            <button
+              onClick={handleLogout}
+              className="flex items-center gap-3 w-full px-3 py-2.5 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800 transition"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
           </div>
-          <button
-            onClick={handleLogout}
-            className="flex items-center gap-3 w-full px-3 py-2.5 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800 transition"
-          >
-            <LogOut className="w-4 h-4" />
-            Sign out
-          </button>
-        </div>
-      </aside>
-
-      {/* Main content */}
-      <div className="flex-1 flex flex-col min-w-0">
-        {/* Top bar */}
-        <header className="bg-slate-900 border-b border-slate-800 px-4 lg:px-6 py-4 flex items-center gap-4">
-          <button
-            onClick={() => setSidebarOpen(true)}
-            className="lg:hidden text-slate-400 hover:text-white"
-          >
-            <Menu className="w-5 h-5" />
-          </button>
-          <div className="flex-1" />
-          <span className="text-sm text-slate-400 hidden sm:block">{email}</span>
-          <button
-            onClick={handleLogout}
-            className="text-slate-400 hover:text-white transition"
-            title="Sign out"
-          >
-            <LogOut className="w-4 h-4" />
-          </button>
-        </header>
+        </aside>
+
+        {/* Main content */}
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Top bar */}
+          <header className="bg-slate-900 border-b border-slate-800 px-4 lg:px-6 py-4 flex items-center gap-4 print:hidden">
+            <button
+              onClick={() => setSidebarOpen(true)}
+              className="lg:hidden text-slate-400 hover:text-white"
+            >
+              <Menu className="w-5 h-5" />
+            </button>
+            <div className="flex-1" />
+            <RealtimeStatus />
+            <span className="text-sm text-slate-400 hidden sm:block">{email}</span>
+            <button
+              onClick={handleLogout}
+              className="text-slate-400 hover:text-white transition"
+              title="Sign out"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </header>
 
-        {/* Page */}
-        <main className="flex-1 p-4 lg:p-6 overflow-auto">{children}</main>
+          {/* Page */}
+          <main className="flex-1 p-4 lg:p-6 overflow-auto print:p-0 print:overflow-visible">{children}</main>
+        </div>
       </div>
-    </div>
+    </RealtimeProvider>
   );
 }
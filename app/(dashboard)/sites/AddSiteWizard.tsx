@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { issuesHref } from '@/lib/issueFilters';
 import {
   X,
   Globe,
@@ -198,8 +199,8 @@ export default function AddSiteWizard({ onClose, onAdded }: Props) {
 
     setLoading(true);
     try {
-      const res = await api.post('/api/v1/sites/', { url, name });
-      update({ siteId: res.data.id, name });
+      const site = await sdk.sites.create({ url, name });
+      update({ siteId: site.id, name });
       // Pre-fill WP Admin URL from site URL
       updateCreds({ wpAdminUrl: url });
       setStep('method');
@@ -222,7 +223,7 @@ export default function AddSiteWizard({ onClose, onAdded }: Props) {
 
     setLoading(true);
     try {
-      await api.post(`/api/v1/sites/${state.siteId}/credentials`, {
+      await sdk.sites.addCredential(state.siteId, {
         credential_type: 'ssh',
         value: {
           host: state.sshHost,
@@ -248,31 +249,31 @@ export default function AddSiteWizard({ onClose, onAdded }: Props) {
     const tasks: Promise<unknown>[] = [];
 
     if (moreCreds.wpAdminEnabled && moreCreds.wpAdminUsername && moreCreds.wpAdminPassword) {
-      tasks.push(api.post(`/api/v1/sites/${state.siteId}/credentials`, {
+      tasks.push(sdk.sites.addCredential(state.siteId, {
         credential_type: 'wp_admin',
         value: { url: moreCreds.wpAdminUrl || state.url, username: moreCreds.wpAdminUsername, password: moreCreds.wpAdminPassword },
       }));
     }
     if (moreCreds.ftpEnabled && moreCreds.ftpHost && moreCreds.ftpUser && moreCreds.ftpPassword) {
-      tasks.push(api.post(`/api/v1/sites/${state.siteId}/credentials`, {
+      tasks.push(sdk.sites.addCredential(state.siteId, {
         credential_type: 'ftp',
         value: { host: moreCreds.ftpHost, user: moreCreds.ftpUser, password: moreCreds.ftpPassword, port: parseInt(moreCreds.ftpPort) || 21 },
       }));
     }
     if (moreCreds.dbEnabled && moreCreds.dbHost && moreCreds.dbUser && moreCreds.dbPassword) {
-      tasks.push(api.post(`/api/v1/sites/${state.siteId}/credentials`, {
+      tasks.push(sdk.sites.addCredential(state.siteId, {
         credential_type: 'database',
         value: { host: moreCreds.dbHost, user: moreCreds.dbUser, password: moreCreds.dbPassword, name: moreCreds.dbName, port: parseInt(moreCreds.dbPort) || 3306 },
       }));
     }
     if (moreCreds.cpanelEnabled && moreCreds.cpanelUrl && moreCreds.cpanelUsername && moreCreds.cpanelPassword) {
-      tasks.push(api.post(`/api/v1/sites/${state.siteId}/credentials`, {
+      tasks.push(sdk.sites.addCredential(state.siteId, {
         credential_type: 'cpanel',
         value: { url: moreCreds.cpanelUrl, username: moreCreds.cpanelUsername, password: moreCreds.cpanelPassword },
       }));
     }
     if (moreCreds.wpAppEnabled && moreCreds.wpAppUsername && moreCreds.wpAppPassword) {
-      tasks.push(api.post(`/api/v1/sites/${state.siteId}/credentials`, {
+      tasks.push(sdk.sites.addCredential(state.siteId, {
         credential_type: 'wp_app_password',
         value: { username: moreCreds.wpAppUsername, app_password: moreCreds.wpAppPassword },
       }));
@@ -294,7 +295,7 @@ export default function AddSiteWizard({ onClose, onAdded }: Props) {
   async function runHealthCheck() {
     setStep('testing');
     try {
-      await api.post(`/api/v1/sites/${state.siteId}/health-check`);
+      await sdk.sites.healthCheck(state.siteId);
     } catch {
       // Non-fatal
     }
@@ -646,7 +647,7 @@ export default function AddSiteWizard({ onClose, onAdded }: Props) {
               </div>
               <div className="w-full space-y-2 pt-2">
                 <button
-                  onClick={() => { onAdded(); router.push(`/issues?site_id=${state.siteId}`); }}
+                  onClick={() => { onAdded(); router.push(issuesHref({ site: state.siteId })); }}
                   className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-medium py-2.5 rounded-lg transition"
                 >
                   <AlertTriangle className="w-4 h-4" /> View Issues for this site
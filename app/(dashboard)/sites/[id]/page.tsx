@@ -2,7 +2,9 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { issuesHref } from '@/lib/issueFilters';
+import type { Credential, CredentialType, Site } from '@/types';
 import {
   ArrowLeft,
   Globe,
@@ -15,30 +17,9 @@ import {
   CheckCircle,
   X,
   AlertTriangle,
+  FileText,
 } from 'lucide-react';
 
-// ---------------------------------------------------------------------------
-// Types
-// ---------------------------------------------------------------------------
-
-interface Site {
-  id: string;
-  url: string;
-  name: string;
-  status: string;
-  last_health_check: string | null;
-  created_at: string;
-}
-
-interface Credential {
-  id: string;
-  site_id: string;
-  credential_type: string;
-  created_at: string;
-}
-
-type CredentialType = 'ssh' | 'ftp' | 'wp_admin' | 'database' | 'cpanel' | 'wp_app_password' | 'api_key';
-
 // ---------------------------------------------------------------------------
 // Credential type metadata
 // ---------------------------------------------------------------------------
@@ -140,7 +121,7 @@ function AddCredModal({ siteId, siteUrl, existingTypes, onClose, onAdded }: AddC
     setError('');
     setLoading(true);
     try {
-      await api.post(`/api/v1/sites/${siteId}/credentials`, {
+      await sdk.sites.addCredential(siteId, {
         credential_type: selectedType,
         value: fields,
       });
@@ -235,12 +216,12 @@ export default function SiteSettingsPage() {
     setLoading(true);
     setError('');
     try {
-      const [siteRes, credsRes] = await Promise.all([
-        api.get<Site>(`/api/v1/sites/${id}`),
-        api.get<Credential[]>(`/api/v1/sites/${id}/credentials`),
+      const [siteData, credsData] = await Promise.all([
+        sdk.sites.get(id),
+        sdk.sites.listCredentials(id),
       ]);
-      setSite(siteRes.data);
-      setCredentials(credsRes.data);
+      setSite(siteData);
+      setCredentials(credsData);
     } catch {
       setError('Failed to load site data.');
     } finally {
@@ -254,7 +235,7 @@ export default function SiteSettingsPage() {
     if (!confirm('Delete this credential? This cannot be undone.')) return;
     setDeletingId(credId);
     try {
-      await api.delete(`/api/v1/sites/${id}/credentials/${credId}`);
+      await sdk.sites.deleteCredential(id, credId);
       setCredentials((prev) => prev.filter((c) => c.id !== credId));
     } catch {
       alert('Failed to delete credential.');
@@ -316,11 +297,17 @@ export default function SiteSettingsPage() {
             </div>
             <div className="flex gap-2 flex-shrink-0">
               <button
-                onClick={() => router.push(`/issues?site_id=${site.id}`)}
+                onClick={() => router.push(issuesHref({ site: site.id }))}
                 className="flex items-center gap-1.5 text-sm text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded-lg transition"
               >
                 <AlertTriangle className="w-3.5 h-3.5" /> Issues
               </button>
+              <button
+                onClick={() => router.push(`/sites/${site.id}/report`)}
+                className="flex items-center gap-1.5 text-sm text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded-lg transition"
+              >
+                <FileText className="w-3.5 h-3.5" /> Report
+              </button>
             </div>
           </div>
         </div>
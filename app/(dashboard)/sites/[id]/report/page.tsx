@@ -0,0 +1,352 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { STATUS_LABELS } from '@/lib/issueFilters';
+import {
+  DEFAULT_BRANDING, fetchSiteReport, lastMonth, loadReportBranding, rangeBounds, saveReportBranding,
+} from '@/lib/siteReport';
+import type { ReportBranding, ReportRange, SiteReport } from '@/lib/siteReport';
+import type { Issue } from '@/types';
+import { ArrowLeft, ImagePlus, Loader2, Printer, X } from 'lucide-react';
+
+// Logos are stored inline with the branding, so keep them small
+const MAX_LOGO_BYTES = 512 * 1024;
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white';
+
+function ticketLabel(issue: Issue): string {
+  return issue.ticket_number ? `TKT-${String(issue.ticket_number).padStart(3, '0')}` : '—';
+}
+
+function formatDay(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+}
+
+// "September 2026" for a whole month, otherwise both ends
+function periodLabel(range: ReportRange): string {
+  const { start, end } = rangeBounds(range);
+  const nextMonth = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  if (start.getDate() === 1 && end.getTime() === nextMonth.getTime()) {
+    return start.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+  return `${formatDay(start.toISOString())} – ${formatDay(new Date(end.getTime() - 1).toISOString())}`;
+}
+
+// ── Branding ───────────────────────────────────────────────────────────────
+
+function BrandingForm({ branding, onChange }: {
+  branding: ReportBranding;
+  onChange: (branding: ReportBranding) => void;
+}) {
+  const [error, setError] = useState('');
+
+  function pickLogo(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('Logos can be up to 512 KB.');
+      return;
+    }
+    setError('');
+    const reader = new FileReader();
+    reader.onload = () => onChange({ ...branding, logo: reader.result as string });
+    reader.readAsDataURL(file);
+  }
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-5">
+      <h2 className="text-white font-semibold mb-3">Branding</h2>
+      <div className="grid sm:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Agency name
+          <input value={branding.agencyName} onChange={(e) => onChange({ ...branding, agencyName: e.target.value })}
+            placeholder="Your agency" className={`${inputClass} placeholder-slate-500`} />
+        </label>
+
+        <div className="flex flex-col gap-1 text-xs text-slate-400">
+          Logo
+          <div className="flex items-center gap-2">
+            {branding.logo && (
+              <div className="flex items-center gap-1 bg-white rounded-lg px-2 py-1">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={branding.logo} alt="" className="h-7 max-w-[120px] object-contain" />
+                <button onClick={() => onChange({ ...branding, logo: null })}
+                  className="text-slate-500 hover:text-red-500" aria-label="Remove logo">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+            <label className="flex items-center gap-1.5 cursor-pointer text-sm text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 px-3 py-2 rounded-lg transition">
+              <ImagePlus className="w-4 h-4" />
+              {branding.logo ? 'Replace' : 'Upload'}
+              <input type="file" accept="image/*" onChange={pickLogo} className="hidden" />
+            </label>
+          </div>
+          {error && <span className="text-red-400">{error}</span>}
+        </div>
+
+        <label className="flex items-center gap-3 text-sm text-slate-300">
+          <input type="color" value={branding.primaryColor}
+            onChange={(e) => onChange({ ...branding, primaryColor: e.target.value })}
+            className="w-9 h-9 bg-transparent rounded cursor-pointer" />
+          Header colour
+        </label>
+        <label className="flex items-center gap-3 text-sm text-slate-300">
+          <input type="color" value={branding.accentColor}
+            onChange={(e) => onChange({ ...branding, accentColor: e.target.value })}
+            className="w-9 h-9 bg-transparent rounded cursor-pointer" />
+          Accent colour
+        </label>
+      </div>
+      <button onClick={() => onChange(DEFAULT_BRANDING)}
+        className="mt-3 text-xs text-slate-400 hover:text-white transition">
+        Reset branding
+      </button>
+    </div>
+  );
+}
+
+// ── Report sheet ───────────────────────────────────────────────────────────
+
+function Stat({ label, value, sub, color }: { label: string; value: string | number; sub?: string; color: string }) {
+  return (
+    <div className="border border-slate-200 rounded-lg p-4">
+      <p className="text-2xl font-bold" style={{ color }}>{value}</p>
+      <p className="text-sm text-slate-600">{label}</p>
+      {sub && <p className="text-xs text-slate-400 mt-0.5">{sub}</p>}
+    </div>
+  );
+}
+
+function SectionTitle({ children, color }: { children: React.ReactNode; color: string }) {
+  return (
+    <h3 className="text-sm font-semibold uppercase tracking-wide mb-3 pb-1 border-b-2" style={{ borderColor: color }}>
+      {children}
+    </h3>
+  );
+}
+
+function IssueTable({ issues }: { issues: Issue[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-slate-500">
+          <th className="py-1.5 pr-3 font-medium">Ticket</th>
+          <th className="py-1.5 pr-3 font-medium">Issue</th>
+          <th className="py-1.5 pr-3 font-medium">Priority</th>
+          <th className="py-1.5 pr-3 font-medium">Status</th>
+          <th className="py-1.5 font-medium text-right">Reported</th>
+        </tr>
+      </thead>
+      <tbody>
+        {issues.map((issue) => (
+          <tr key={issue.id} className="border-t border-slate-100 break-inside-avoid">
+            <td className="py-1.5 pr-3 font-mono text-xs text-slate-500 whitespace-nowrap">{ticketLabel(issue)}</td>
+            <td className="py-1.5 pr-3">{issue.title}</td>
+            <td className="py-1.5 pr-3 capitalize">{issue.priority}</td>
+            <td className="py-1.5 pr-3 whitespace-nowrap">{STATUS_LABELS[issue.status]}</td>
+            <td className="py-1.5 text-right whitespace-nowrap">{formatDay(issue.created_at)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ReportSheet({ report, branding }: { report: SiteReport; branding: ReportBranding }) {
+  const { site, found, fixes, outstanding } = report;
+  const accent = branding.accentColor;
+
+  return (
+    <article
+      className="bg-white text-slate-800 rounded-xl overflow-hidden shadow-2xl shadow-black/40 print:shadow-none print:rounded-none"
+      // Keep the brand colours when printing; browsers drop backgrounds by default
+      style={{ WebkitPrintColorAdjust: 'exact', printColorAdjust: 'exact' }}
+    >
+      <header className="flex items-center justify-between gap-6 px-8 py-6 text-white" style={{ background: branding.primaryColor }}>
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-widest opacity-80">Maintenance report</p>
+          <h1 className="text-2xl font-bold mt-1 truncate">{site.name}</h1>
+          <p className="text-sm opacity-80 truncate">{site.url}</p>
+          <p className="text-sm mt-2 font-medium">{periodLabel(report.range)}</p>
+        </div>
+        {(branding.logo || branding.agencyName) && (
+          <div className="flex flex-col items-end gap-2 flex-shrink-0">
+            {branding.logo && (
+              <div className="bg-white rounded-lg p-2">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={branding.logo} alt={branding.agencyName} className="h-12 max-w-[180px] object-contain" />
+              </div>
+            )}
+            {branding.agencyName && <p className="text-sm font-semibold">{branding.agencyName}</p>}
+          </div>
+        )}
+      </header>
+
+      <div className="px-8 py-6 space-y-8">
+        <section className="grid grid-cols-2 sm:grid-cols-4 gap-3 break-inside-avoid">
+          {/* The site's latest health check, as the Sites page shows it */}
+          <Stat
+            label="Site health"
+            color={accent}
+            value={site.status.charAt(0).toUpperCase() + site.status.slice(1)}
+            sub={site.last_health_check
+              ? `Last checked ${formatDay(site.last_health_check)}`
+              : 'Not checked yet'}
+          />
+          <Stat label="Issues found" value={found.length} color={accent} />
+          <Stat label="Issues fixed" value={fixes.length} color={accent} />
+          <Stat label="Outstanding" value={outstanding.length} color={accent} sub="at the end of the period" />
+        </section>
+
+        <section>
+          <SectionTitle color={accent}>Fixes applied</SectionTitle>
+          {fixes.length === 0 ? (
+            <p className="text-sm text-slate-500">No fixes were needed this period.</p>
+          ) : (
+            <ol className="space-y-4">
+              {fixes.map(({ issue, steps }) => (
+                <li key={issue.id} className="break-inside-avoid">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className="text-sm font-semibold">
+                      <span className="font-mono text-xs text-slate-500 mr-2">{ticketLabel(issue)}</span>
+                      {issue.title}
+                    </p>
+                    <span className="text-xs text-slate-500 whitespace-nowrap">Fixed {formatDay(issue.resolved_at)}</span>
+                  </div>
+                  {steps.length > 0 && (
+                    <ul className="mt-1 ml-4 list-disc text-sm text-slate-600 space-y-0.5">
+                      {steps.map((step, idx) => <li key={idx}>{step}</li>)}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <section>
+          <SectionTitle color={accent}>Outstanding items</SectionTitle>
+          {outstanding.length === 0
+            ? <p className="text-sm text-slate-500">Nothing outstanding.</p>
+            : <IssueTable issues={outstanding} />}
+        </section>
+
+        <section>
+          <SectionTitle color={accent}>Issues found this period</SectionTitle>
+          {found.length === 0
+            ? <p className="text-sm text-slate-500">No new issues were found.</p>
+            : <IssueTable issues={found} />}
+        </section>
+      </div>
+
+      <footer className="px-8 py-4 border-t border-slate-200 text-xs text-slate-400 flex justify-between gap-4">
+        <span>{branding.agencyName ? `Prepared by ${branding.agencyName}` : 'Prepared with SiteDoc'}</span>
+        <span>Generated {formatDay(new Date().toISOString())}</span>
+      </footer>
+    </article>
+  );
+}
+
+// ── Page ───────────────────────────────────────────────────────────────────
+
+export default function SiteReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [range, setRange] = useState<ReportRange>(() => lastMonth());
+  const [branding, setBranding] = useState<ReportBranding>(DEFAULT_BRANDING);
+  const [report, setReport] = useState<SiteReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setBranding(loadReportBranding());
+  }, []);
+
+  useEffect(() => {
+    if (!range.from || !range.to || range.from > range.to) return;
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    fetchSiteReport(id, range)
+      .then((r) => { if (!cancelled) setReport(r); })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+        setError(typeof d === 'string' ? d : 'Failed to build the report.');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, range]);
+
+  function changeBranding(next: ReportBranding) {
+    setBranding(next);
+    saveReportBranding(next);
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="space-y-6 print:hidden">
+        <div>
+          <button
+            onClick={() => router.push(`/sites/${id}`)}
+            className="flex items-center gap-1.5 text-slate-400 hover:text-white text-sm transition mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" /> Back to site
+          </button>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-white">Client report</h1>
+              <p className="text-slate-400 text-sm mt-1">
+                Print it, or choose “Save as PDF” in the print dialog.
+              </p>
+            </div>
+            <button
+              onClick={() => window.print()}
+              disabled={!report || loading}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition"
+            >
+              <Printer className="w-4 h-4" />
+              Print / Save PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-5 flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            From
+            <input type="date" value={range.from} max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            To
+            <input type="date" value={range.to} min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })} className={inputClass} />
+          </label>
+          <button onClick={() => setRange(lastMonth())}
+            className="text-sm text-slate-400 hover:text-white py-2 transition">
+            Last month
+          </button>
+        </div>
+
+        <BrandingForm branding={branding} onChange={changeBranding} />
+      </div>
+
+      {error ? (
+        <div className="bg-red-900/20 border border-red-700 text-red-300 rounded-xl p-6 text-sm print:hidden">
+          {error}
+        </div>
+      ) : loading || !report ? (
+        <div className="flex justify-center py-20 print:hidden">
+          <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+        </div>
+      ) : (
+        <ReportSheet report={report} branding={branding} />
+      )}
+    </div>
+  );
+}
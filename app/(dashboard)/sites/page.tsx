@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { issuesHref } from '@/lib/issueFilters';
 import type { Site } from '@/types';
 import { Loader2, Globe, ExternalLink, Plus, AlertTriangle, Settings } from 'lucide-react';
 import AddSiteWizard from './AddSiteWizard';
@@ -48,9 +49,9 @@ export default function SitesPage() {
 
   function loadSites() {
     setLoading(true);
-    api
-      .get<Site[]>('/api/v1/sites/')
-      .then((res) => setSites(res.data))
+    sdk.sites
+      .list()
+      .then(setSites)
       .catch(() => setError('Failed to load sites.'))
       .finally(() => setLoading(false));
   }
@@ -169,7 +170,7 @@ export default function SitesPage() {
               {/* Actions */}
               <div className="mt-auto pt-3 border-t border-slate-700 space-y-1.5">
                 <Link
-                  href={`/issues?site_id=${site.id}`}
+                  href={issuesHref({ site: site.id })}
                   className="flex items-center justify-center gap-2 w-full text-xs font-medium text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded-lg px-3 py-2 transition"
                 >
                   <AlertTriangle className="w-3.5 h-3.5" />
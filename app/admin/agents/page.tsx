@@ -1,7 +1,9 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { usePermissions } from '@/lib/usePermissions';
+import type { AgentModelConfig, CeleryStatus } from '@/types';
 import {
   Loader2,
   Save,
@@ -13,24 +15,6 @@ import {
   AlertCircle,
 } from 'lucide-react';
 
-interface AgentConfig {
-  config: {
-    AGENT_MODEL_DEV: string;
-    AGENT_MODEL_QA: string;
-    AGENT_MODEL_PM: string;
-    AGENT_MODEL_TECH_LEAD: string;
-  };
-}
-
-interface CeleryStatus {
-  ok: boolean;
-  error?: string;
-  workers: string[];
-  active_tasks: Record<string, number>;
-  reserved_tasks: Record<string, number>;
-  raw?: Record<string, unknown>;
-}
-
 const MODEL_OPTIONS = [
   'claude-haiku-4-5',
   'claude-sonnet-4-5',
@@ -50,8 +34,10 @@ const AGENT_LABELS: Record<string, string> = {
 };
 
 export default function AdminAgentsPage() {
-  const [config, setConfig] = useState<AgentConfig['config'] | null>(null);
-  const [draftConfig, setDraftConfig] = useState<AgentConfig['config'] | null>(null);
+  const { can } = usePermissions();
+  const canManage = can('admin.agents.manage');
+  const [config, setConfig] = useState<AgentModelConfig | null>(null);
+  const [draftConfig, setDraftConfig] = useState<AgentModelConfig | null>(null);
   const [celery, setCelery] = useState<CeleryStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [celeryLoading, setCeleryLoading] = useState(true);
@@ -61,11 +47,11 @@ export default function AdminAgentsPage() {
   const [restartMsg, setRestartMsg] = useState('');
 
   useEffect(() => {
-    api
-      .get<AgentConfig>('/api/v1/internal/admin/agent-config')
+    sdk.admin.agents
+      .getConfig()
       .then((res) => {
-        setConfig(res.data.config);
-        setDraftConfig({ ...res.data.config });
+        setConfig(res.config);
+        setDraftConfig({ ...res.config });
       })
       .catch(() => setSaveMsg('Failed to load agent config.'))
       .finally(() => setLoading(false));
@@ -75,9 +61,9 @@ export default function AdminAgentsPage() {
 
   function loadCeleryStatus() {
     setCeleryLoading(true);
-    api
-      .get<CeleryStatus>('/api/v1/internal/admin/celery-status')
-      .then((res) => setCelery(res.data))
+    sdk.admin.agents
+      .celeryStatus()
+      .then(setCelery)
       .catch(() => setCelery({ ok: false, error: 'Request failed', workers: [], active_tasks: {}, reserved_tasks: {} }))
       .finally(() => setCeleryLoading(false));
   }
@@ -87,7 +73,7 @@ export default function AdminAgentsPage() {
     setSaving(true);
     setSaveMsg('');
     try {
-      await api.post('/api/v1/internal/admin/agent-config', draftConfig);
+      await sdk.admin.agents.saveConfig(draftConfig);
       setConfig({ ...draftConfig });
       setSaveMsg('Configuration saved successfully.');
     } catch {
@@ -101,14 +87,12 @@ export default function AdminAgentsPage() {
     setRestarting(true);
     setRestartMsg('');
     try {
-      const res = await api.post<{ ok: boolean; method?: string; error?: string }>(
-        '/api/v1/internal/admin/restart-workers'
-      );
-      if (res.data.ok) {
-        setRestartMsg(`Workers restarted (${res.data.method ?? 'ok'}).`);
+      const res = await sdk.admin.agents.restartWorkers();
+      if (res.ok) {
+        setRestartMsg(`Workers restarted (${res.method ?? 'ok'}).`);
         setTimeout(() => loadCeleryStatus(), 3000);
       } else {
-        setRestartMsg(`Restart failed: ${res.data.error}`);
+        setRestartMsg(`Restart failed: ${res.error}`);
       }
     } catch {
       setRestartMsg('Failed to restart workers.');
@@ -189,7 +173,7 @@ export default function AdminAgentsPage() {
             <div className="flex items-center gap-3">
               <button
                 onClick={saveConfig}
-                disabled={saving || !hasChanges}
+                disabled={saving || !hasChanges || !canManage}
                 className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:cursor-not-allowed text-white text-sm font-medium px-4 py-2 rounded-lg transition"
               >
                 {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
@@ -224,7 +208,7 @@ export default function AdminAgentsPage() {
             </button>
             <button
               onClick={restartWorkers}
-              disabled={restarting}
+              disabled={restarting || !canManage}
               className="flex items-center gap-1.5 text-xs text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/40 px-3 py-1.5 rounded-lg transition disabled:opacity-50"
             >
               {restarting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
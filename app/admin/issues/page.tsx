@@ -2,23 +2,10 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { usePermissions } from '@/lib/usePermissions';
 import { Loader2, X, Filter } from 'lucide-react';
-import type { KanbanColumn } from '@/types';
-
-interface AdminIssue {
-  id: string;
-  title: string;
-  site_id: string;
-  site_name: string;
-  customer_email: string;
-  status: string;
-  kanban_column: KanbanColumn | null;
-  priority: string;
-  ticket_number: number | null;
-  created_at: string | null;
-  resolved_at: string | null;
-}
+import type { AdminIssue, KanbanColumn } from '@/types';
 
 const KANBAN_COLUMNS: KanbanColumn[] = [
   'triage', 'ready_for_uat_approval', 'todo', 'in_progress',
@@ -57,6 +44,8 @@ const PRIORITY_COLORS: Record<string, string> = {
 };
 
 export default function AdminIssuesPage() {
+  const { can } = usePermissions();
+  const canTransition = can('admin.issues.transition');
   const [issues, setIssues] = useState<AdminIssue[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -64,28 +53,27 @@ export default function AdminIssuesPage() {
   const [actionMsg, setActionMsg] = useState('');
   const [transitioning, setTransitioning] = useState<string | null>(null);
 
-  function loadIssues(col?: string) {
+  function loadIssues(col?: KanbanColumn) {
     setLoading(true);
-    const params = col ? `?kanban_column=${encodeURIComponent(col)}` : '';
-    api
-      .get<AdminIssue[]>(`/api/v1/internal/admin/issues${params}`)
-      .then((res) => setIssues(res.data))
+    sdk.admin.issues
+      .list(col)
+      .then(setIssues)
       .catch(() => setError('Failed to load issues.'))
       .finally(() => setLoading(false));
   }
 
   useEffect(() => { loadIssues(); }, []);
 
-  async function transitionIssue(issueId: string, toCol: string) {
+  async function transitionIssue(issueId: string, toCol: KanbanColumn) {
     setTransitioning(issueId);
     setActionMsg('');
     try {
-      await api.post(`/api/v1/internal/admin/issues/${issueId}/transition`, {
+      await sdk.admin.issues.transition(issueId, {
         to_col: toCol,
         note: 'Admin manual transition',
       });
       setIssues((prev) =>
-        prev.map((i) => (i.id === issueId ? { ...i, kanban_column: toCol as KanbanColumn } : i))
+        prev.map((i) => (i.id === issueId ? { ...i, kanban_column: toCol } : i))
       );
       setActionMsg(`Issue moved to ${KANBAN_LABELS[toCol] ?? toCol}`);
     } catch {
@@ -116,7 +104,7 @@ export default function AdminIssuesPage() {
           value={filterCol}
           onChange={(e) => {
             setFilterCol(e.target.value);
-            loadIssues(e.target.value || undefined);
+            loadIssues((e.target.value || undefined) as KanbanColumn | undefined);
           }}
           className="bg-slate-800 border border-slate-700 text-slate-300 text-sm rounded-lg px-3 py-2 focus:outline-none focus:border-blue-500"
         >
@@ -198,8 +186,10 @@ export default function AdminIssuesPage() {
                       ) : (
                         <select
                           value={issue.kanban_column ?? ''}
-                          onChange={(e) => transitionIssue(issue.id, e.target.value)}
-                          className="bg-slate-700 border border-slate-600 text-slate-300 text-xs rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+                          onChange={(e) => transitionIssue(issue.id, e.target.value as KanbanColumn)}
+                          disabled={!canTransition}
+                          title={canTransition ? undefined : "You don't have permission to move issues"}
+                          className="bg-slate-700 border border-slate-600 text-slate-300 text-xs rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                           {KANBAN_COLUMNS.map((col) => (
                             <option key={col} value={col}>{KANBAN_LABELS[col]}</option>
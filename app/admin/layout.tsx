@@ -3,15 +3,18 @@
 import { useEffect, useState } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
-import { isAuthenticated, logout, getToken } from '@/lib/auth';
-import api from '@/lib/api';
-import type { Customer } from '@/types';
+import { isAuthenticated, logout, getToken, loginPath } from '@/lib/auth';
+import { routePermission } from '@/lib/permissions';
+import type { Permission } from '@/lib/permissions';
+import { usePermissions } from '@/lib/usePermissions';
+import { RealtimeProvider, RealtimeStatus } from '@/components/RealtimeProvider';
 import {
   LayoutDashboard,
   Users,
   Globe,
   AlertTriangle,
   Bot,
+  FileText,
   LogOut,
   Menu,
   X,
@@ -19,53 +22,37 @@ import {
   ChevronLeft,
 } from 'lucide-react';
 
-const ADMIN_DOMAIN = '@sitedoc.ai';
-
-function isAdminEmail(email: string): boolean {
-  if (email.toLowerCase().endsWith(ADMIN_DOMAIN)) return true;
-  const adminEmails = (process.env.NEXT_PUBLIC_ADMIN_EMAILS ?? '')
-    .split(',')
-    .map((e) => e.trim().toLowerCase())
-    .filter(Boolean);
-  return adminEmails.includes(email.toLowerCase());
-}
-
-const navItems = [
-  { href: '/admin', label: 'Overview', icon: LayoutDashboard, exact: true },
-  { href: '/admin/users', label: 'Users', icon: Users },
-  { href: '/admin/sites', label: 'Sites', icon: Globe },
-  { href: '/admin/issues', label: 'Issues', icon: AlertTriangle },
-  { href: '/admin/agents', label: 'Agents', icon: Bot },
+const navItems: {
+  href: string;
+  label: string;
+  icon: React.ElementType;
+  permission: Permission;
+  exact?: boolean;
+}[] = [
+  { href: '/admin', label: 'Overview', icon: LayoutDashboard, permission: 'admin.access', exact: true },
+  { href: '/admin/users', label: 'Users', icon: Users, permission: 'admin.users.view' },
+  { href: '/admin/sites', label: 'Sites', icon: Globe, permission: 'admin.sites.view' },
+  { href: '/admin/issues', label: 'Issues', icon: AlertTriangle, permission: 'admin.issues.view' },
+  { href: '/admin/agents', label: 'Agents', icon: Bot, permission: 'admin.agents.view' },
+  { href: '/admin/templates', label: 'Templates', icon: FileText, permission: 'admin.templates.view' },
 ];
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
   const router = useRouter();
   const pathname = usePathname();
-  const [email, setEmail] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { me, roles, can, loading } = usePermissions();
+  const email = me?.email ?? '';
+  const staffRoles = roles.filter((r) => r !== 'customer');
 
   useEffect(() => {
-    if (!isAuthenticated()) {
-      router.replace('/login');
-      return;
+    if (!isAuthenticated() || (!loading && !me && !getToken())) {
+      router.replace(loginPath(pathname));
     }
+  }, [router, pathname, loading, me]);
 
-    api
-      .get<Customer>('/api/v1/auth/me')
-      .then((res) => {
-        const userEmail = res.data.email;
-        setEmail(userEmail);
-        setIsAdmin(isAdminEmail(userEmail));
-        setLoading(false);
-      })
-      .catch(() => {
-        const token = getToken();
-        if (!token) router.replace('/login');
-        setLoading(false);
-      });
-  }, [router]);
+  const required = routePermission(pathname);
+  const allowed = !!required && can(required);
 
   const isActive = (href: string, exact?: boolean) => {
     if (exact) return pathname === href;
@@ -80,13 +67,15 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     );
   }
 
-  if (!isAdmin) {
+  if (!allowed) {
     return (
       <div className="min-h-screen bg-slate-900 flex items-center justify-center">
         <div className="text-center">
           <ShieldAlert className="w-16 h-16 text-red-500 mx-auto mb-4" />
           <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
-          <p className="text-slate-400 mb-6">You don&apos;t have permission to access the admin area.</p>
+          <p className="text-slate-400 mb-6">
+            You don&apos;t have permission to access {can('admin.access') ? 'this page' : 'the admin area'}.
+          </p>
           <Link
             href="/dashboard"
             className="inline-flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-medium px-5 py-2.5 rounded-lg transition"
@@ -100,103 +89,108 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
   }
 
   return (
-    <div className="min-h-screen bg-slate-900 flex">
-      {/* Mobile overlay */}
-      {sidebarOpen && (
-        <div
-          className="fixed inset-0 bg-black/60 z-20 lg:hidden"
-          onClick={() => setSidebarOpen(false)}
-        />
-      )}
-
-      {/* Sidebar */}
-      <aside
-        className={`fixed top-0 left-0 h-full w-64 bg-slate-950 border-r border-slate-800 z-30 flex flex-col transform transition-transform duration-200 lg:translate-x-0 ${
-          sidebarOpen ? 'translate-x-0' : '-translate-x-full'
-        } lg:static lg:flex`}
-      >
-        {/* Logo */}
-        <div className="flex items-center justify-between px-6 py-5 border-b border-slate-800">
-          <div>
-            <div className="text-xl font-bold text-white tracking-tight">SiteDoc</div>
-            <div className="text-xs text-red-400 font-semibold uppercase tracking-widest mt-0.5">Super Admin</div>
-          </div>
-          <button
+    <RealtimeProvider>
+      <div className="min-h-screen bg-slate-900 flex">
+        {/* Mobile overlay */}
+        {sidebarOpen && (
+          <div
+            className="fixed inset-0 bg-black/60 z-20 lg:hidden"
             onClick={() => setSidebarOpen(false)}
-            className="lg:hidden text-slate-400 hover:text-white"
-          >
-            <X className="w-5 h-5" />
-          </button>
-        </div>
-
-        {/* Nav */}
-        <nav className="flex-1 px-3 py-4 space-y-1">
-          {navItems.map(({ href, label, icon: Icon, exact }) => (
-            <Link
-              key={href}
-              href={href}
+          />
+        )}
+
+        {/* Sidebar */}
+        <aside
+          className={`fixed top-0 left-0 h-full w-64 bg-slate-950 border-r border-slate-800 z-30 flex flex-col transform transition-transform duration-200 lg:translate-x-0 ${
+            sidebarOpen ? 'translate-x-0' : '-translate-x-full'
+          } lg:static lg:flex`}
+        >
+          {/* Logo */}
+          <div className="flex items-center justify-between px-6 py-5 border-b border-slate-800">
+            <div>
+              <div className="text-xl font-bold text-white tracking-tight">SiteDoc</div>
+              <div className="text-xs text-red-400 font-semibold uppercase tracking-widest mt-0.5">
+                {staffRoles.length > 0 ? staffRoles.join(' · ') : 'Admin'}
+              </div>
+            </div>
+            <button
               onClick={() => setSidebarOpen(false)}
-              className={`flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${
-                isActive(href, exact)
-                  ? 'bg-red-600 text-white'
-                  : 'text-slate-400 hover:text-white hover:bg-slate-800'
-              }`}
+              className="lg:hidden text-slate-400 hover:text-white"
             >
-              <Icon className="w-4 h-4" />
-              {label}
-            </Link>
-          ))}
-
-          <div className="pt-4 border-t border-slate-800 mt-4">
-            <Link
-              href="/dashboard"
-              className="flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition"
-            >
-              <ChevronLeft className="w-4 h-4" />
-              Back to App
-            </Link>
+              <X className="w-5 h-5" />
+            </button>
           </div>
-        </nav>
 
-        {/* User */}
-        <div className="px-3 py-4 border-t border-slate-800">
-          <div className="px-3 py-2 mb-1">
-            <p className="text-xs text-slate-500 font-medium uppercase tracking-wide">Admin</p>
-            <p className="text-sm text-slate-300 truncate mt-1">{email || '—'}</p>
+          {/* Nav */}
+          <nav className="flex-1 px-3 py-4 space-y-1">
+            {navItems.filter(({ permission }) => can(permission)).map(({ href, label, icon: Icon, exact }) => (
+              <Link
+                key={href}
+                href={href}
+                onClick={() => setSidebarOpen(false)}
+                className={`flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${
+                  isActive(href, exact)
+                    ? 'bg-red-600 text-white'
+                    : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </Link>
+            ))}
+
+            <div className="pt-4 border-t border-slate-800 mt-4">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Back to App
+              </Link>
+            </div>
+          </nav>
+
+          {/* User */}
+          <div className="px-3 py-4 border-t border-slate-800">
+            <div className="px-3 py-2 mb-1">
+              <p className="text-xs text-slate-500 font-medium uppercase tracking-wide">Admin</p>
+              <p className="text-sm text-slate-300 truncate mt-1">{email || '—'}</p>
+            </div>
+            <button
+              onClick={logout}
+              className="flex items-center gap-3 w-full px-3 py-2.5 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800 transition"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
           </div>
-          <button
-            onClick={logout}
-            className="flex items-center gap-3 w-full px-3 py-2.5 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800 transition"
-          >
-            <LogOut className="w-4 h-4" />
-            Sign out
-          </button>
+        </aside>
+
+        {/* Main */}
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Top bar */}
+          <header className="bg-slate-900 border-b border-slate-800 px-4 lg:px-6 py-4 flex items-center gap-4">
+            <button
+              onClick={() => setSidebarOpen(true)}
+              className="lg:hidden text-slate-400 hover:text-white"
+            >
+              <Menu className="w-5 h-5" />
+            </button>
+            <div className="flex items-center gap-2 text-red-400">
+              <ShieldAlert className="w-4 h-4" />
+              <span className="text-sm font-semibold">Admin Console</span>
+            </div>
+            <div className="flex-1" />
+            <RealtimeStatus />
+            <span className="text-sm text-slate-400 hidden sm:block">{email}</span>
+            <button onClick={logout} className="text-slate-400 hover:text-white transition" title="Sign out">
+              <LogOut className="w-4 h-4" />
+            </button>
+          </header>
+
+          <main className="flex-1 p-4 lg:p-6 overflow-auto">{children}</main>
         </div>
-      </aside>
-
-      {/* Main */}
-      <div className="flex-1 flex flex-col min-w-0">
-        {/* Top bar */}
-        <header className="bg-slate-900 border-b border-slate-800 px-4 lg:px-6 py-4 flex items-center gap-4">
-          <button
-            onClick={() => setSidebarOpen(true)}
-            className="lg:hidden text-slate-400 hover:text-white"
-          >
-            <Menu className="w-5 h-5" />
-          </button>
-          <div className="flex items-center gap-2 text-red-400">
-            <ShieldAlert className="w-4 h-4" />
-            <span className="text-sm font-semibold">Admin Console</span>
-          </div>
-          <div className="flex-1" />
-          <span className="text-sm text-slate-400 hidden sm:block">{email}</span>
-          <button onClick={logout} className="text-slate-400 hover:text-white transition" title="Sign out">
-            <LogOut className="w-4 h-4" />
-          </button>
-        </header>
-
-        <main className="flex-1 p-4 lg:p-6 overflow-auto">{children}</main>
       </div>
-    </div>
+    </RealtimeProvider>
   );
 }
@@ -2,7 +2,10 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { routePermission } from '@/lib/permissions';
+import { usePermissions } from '@/lib/usePermissions';
+import type { AdminStats } from '@/types';
 import {
   Users,
   Globe,
@@ -15,28 +18,6 @@ import {
   Clock,
 } from 'lucide-react';
 
-interface Stats {
-  total_users: number;
-  total_sites: number;
-  total_issues: number;
-  open_issues: number;
-  resolved_issues: number;
-  issues_by_status: Record<string, number>;
-  agents_running: number;
-  recent_transitions: RecentTransition[];
-  agent_config: Record<string, string>;
-}
-
-interface RecentTransition {
-  id: string;
-  issue_id: string;
-  from_col: string | null;
-  to_col: string;
-  actor_type: string;
-  note: string | null;
-  created_at: string | null;
-}
-
 const KANBAN_LABELS: Record<string, string> = {
   triage: 'Triage',
   ready_for_uat_approval: 'Ready for Approval',
@@ -87,14 +68,15 @@ function StatCard({
 }
 
 export default function AdminDashboard() {
-  const [stats, setStats] = useState<Stats | null>(null);
+  const { can } = usePermissions();
+  const [stats, setStats] = useState<AdminStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
   useEffect(() => {
-    api
-      .get<Stats>('/api/v1/internal/admin/stats')
-      .then((res) => setStats(res.data))
+    sdk.admin
+      .stats()
+      .then(setStats)
       .catch(() => setError('Failed to load admin stats.'))
       .finally(() => setLoading(false));
   }, []);
@@ -163,7 +145,10 @@ export default function AdminDashboard() {
           { href: '/admin/sites', label: 'Manage Sites', icon: Globe },
           { href: '/admin/issues', label: 'All Issues', icon: AlertTriangle },
           { href: '/admin/agents', label: 'Agent Config', icon: Bot },
-        ].map(({ href, label, icon: Icon }) => (
+        ].filter(({ href }) => {
+          const required = routePermission(href);
+          return !required || can(required);
+        }).map(({ href, label, icon: Icon }) => (
           <Link
             key={href}
             href={href}
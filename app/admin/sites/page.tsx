@@ -1,38 +1,10 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { usePermissions } from '@/lib/usePermissions';
 import { Loader2, Search, X, ChevronDown, ChevronUp, ExternalLink } from 'lucide-react';
-
-interface AdminSite {
-  id: string;
-  name: string;
-  url: string;
-  customer_email: string;
-  status: string;
-  credential_types: string[];
-  created_at: string | null;
-  last_health_check: string | null;
-}
-
-interface SiteDetail {
-  id: string;
-  name: string;
-  url: string;
-  customer_email: string;
-  status: string;
-  credential_types: string[];
-  last_health_check: string | null;
-  created_at: string | null;
-  issues: {
-    id: string;
-    title: string;
-    status: string;
-    kanban_column: string | null;
-    priority: string;
-    created_at: string | null;
-  }[];
-}
+import type { AdminSite, AdminSiteDetail } from '@/types';
 
 const STATUS_COLORS: Record<string, string> = {
   active: 'text-green-400 bg-green-900/20',
@@ -51,20 +23,21 @@ const CRED_COLORS: Record<string, string> = {
 };
 
 export default function AdminSitesPage() {
+  const { can } = usePermissions();
+  const canManage = can('admin.sites.manage');
   const [sites, setSites] = useState<AdminSite[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [search, setSearch] = useState('');
-  const [selectedSite, setSelectedSite] = useState<SiteDetail | null>(null);
+  const [selectedSite, setSelectedSite] = useState<AdminSiteDetail | null>(null);
   const [detailLoading, setDetailLoading] = useState(false);
   const [actionMsg, setActionMsg] = useState('');
 
   function loadSites(q?: string) {
     setLoading(true);
-    const params = q ? `?search=${encodeURIComponent(q)}` : '';
-    api
-      .get<AdminSite[]>(`/api/v1/internal/admin/sites${params}`)
-      .then((res) => setSites(res.data))
+    sdk.admin.sites
+      .list(q)
+      .then(setSites)
       .catch(() => setError('Failed to load sites.'))
       .finally(() => setLoading(false));
   }
@@ -77,8 +50,7 @@ export default function AdminSitesPage() {
     setDetailLoading(true);
     setSelectedSite(null);
     try {
-      const res = await api.get<SiteDetail>(`/api/v1/internal/admin/sites/${siteId}`);
-      setSelectedSite(res.data);
+      setSelectedSite(await sdk.admin.sites.get(siteId));
     } catch {
       setActionMsg('Failed to load site details.');
     } finally {
@@ -89,7 +61,7 @@ export default function AdminSitesPage() {
   async function toggleSiteStatus(siteId: string, active: boolean) {
     setActionMsg('');
     try {
-      await api.patch(`/api/v1/internal/admin/sites/${siteId}/status`, { active });
+      await sdk.admin.sites.setActive(siteId, active);
       const newStatus = active ? 'active' : 'inactive';
       setSites((prev) => prev.map((s) => (s.id === siteId ? { ...s, status: newStatus } : s)));
       if (selectedSite?.id === siteId) {
@@ -220,7 +192,7 @@ export default function AdminSitesPage() {
                       </td>
                       <td className="px-4 py-3">
                         <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-                          {site.status === 'active' ? (
+                          {!canManage ? null : site.status === 'active' ? (
                             <button
                               onClick={() => toggleSiteStatus(site.id, false)}
                               className="text-xs text-yellow-400 hover:text-yellow-300 bg-yellow-900/20 hover:bg-yellow-900/40 px-2 py-1 rounded-lg transition"
@@ -0,0 +1,512 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import sdk from '@/lib/sdk';
+import { usePermissions } from '@/lib/usePermissions';
+import { PLAN_COLORS, PLAN_OPTIONS } from '@/lib/plans';
+import { fieldKey, STARTER_TEMPLATES } from '@/lib/templates';
+import type { Issue, IssueTemplate, IssueTemplateInput, TemplateField, TemplateFieldType } from '@/types';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  FileText,
+  Loader2,
+  Pencil,
+  Plus,
+  Sparkles,
+  Trash2,
+  X,
+} from 'lucide-react';
+
+const PRIORITIES: Issue['priority'][] = ['low', 'medium', 'high', 'critical'];
+
+const FIELD_TYPE_LABEL: Record<TemplateFieldType, string> = {
+  text: 'Short text',
+  textarea: 'Long text',
+  date: 'Date',
+};
+
+const EMPTY_TEMPLATE: IssueTemplateInput = {
+  name: '',
+  description: '',
+  title: '',
+  default_priority: 'medium',
+  fields: [],
+  require_page_url: false,
+  plans: [],
+  active: true,
+  sort_order: 0,
+};
+
+function toInput(t: IssueTemplate): IssueTemplateInput {
+  return {
+    name: t.name,
+    description: t.description,
+    title: t.title,
+    default_priority: t.default_priority,
+    fields: t.fields,
+    require_page_url: t.require_page_url,
+    plans: t.plans,
+    active: t.active,
+    sort_order: t.sort_order,
+  };
+}
+
+function offeredOn(t: IssueTemplate, plan: string): boolean {
+  return t.plans.length === 0 || t.plans.includes(plan);
+}
+
+// ── Editor ────────────────────────────────────────────────────────────────
+
+function TemplateEditor({ initial, saving, error, onCancel, onSave }: {
+  initial: IssueTemplateInput;
+  saving: boolean;
+  error: string;
+  onCancel: () => void;
+  onSave: (body: IssueTemplateInput) => void;
+}) {
+  const [draft, setDraft] = useState<IssueTemplateInput>(initial);
+
+  function set<K extends keyof IssueTemplateInput>(key: K, value: IssueTemplateInput[K]) {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function setField(index: number, changes: Partial<TemplateField>) {
+    set('fields', draft.fields.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+  }
+
+  function moveField(index: number, dir: -1 | 1) {
+    const fields = draft.fields.slice();
+    const [moved] = fields.splice(index, 1);
+    fields.splice(index + dir, 0, moved);
+    set('fields', fields);
+  }
+
+  function togglePlan(plan: string) {
+    set('plans', draft.plans.includes(plan) ? draft.plans.filter((p) => p !== plan) : [...draft.plans, plan]);
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    // Keys follow the labels until saved, then stay put so past answers still line up
+    const used = new Set<string>();
+    const fields = draft.fields
+      .filter((f) => f.label.trim())
+      .map((f) => {
+        let key = f.key || fieldKey(f.label);
+        for (let n = 2; used.has(key); n++) key = `${fieldKey(f.label)}_${n}`;
+        used.add(key);
+        return { ...f, key, label: f.label.trim(), placeholder: f.placeholder?.trim() || undefined };
+      });
+    onSave({ ...draft, name: draft.name.trim(), title: draft.title.trim(), fields });
+  }
+
+  const controlClass = 'bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:border-blue-500 placeholder-slate-500';
+  const inputClass = `w-full ${controlClass}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">{initial.name ? `Edit “${initial.name}”` : 'New Template'}</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={submit} className="flex flex-col gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Name</label>
+              <input value={draft.name} onChange={(e) => set('name', e.target.value)} required
+                placeholder="e.g. Broken contact form" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Default priority</label>
+              <select value={draft.default_priority}
+                onChange={(e) => set('default_priority', e.target.value as Issue['priority'])}
+                className={inputClass}>
+                {PRIORITIES.map((p) => (
+                  <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Description shown to customers</label>
+            <input value={draft.description} onChange={(e) => set('description', e.target.value)}
+              placeholder="One line explaining when to pick this template" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Suggested issue title</label>
+            <input value={draft.title} onChange={(e) => set('title', e.target.value)}
+              placeholder="Customers can change it" className={inputClass} />
+          </div>
+
+          {/* Fields */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs text-slate-400">Fields</label>
+              <button type="button"
+                onClick={() => set('fields', [...draft.fields, { key: '', label: '', type: 'text' }])}
+                className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition">
+                <Plus className="w-3 h-3" />
+                Add field
+              </button>
+            </div>
+            {draft.fields.length === 0 ? (
+              <p className="text-xs text-slate-500 bg-slate-800 rounded-lg px-3 py-3">
+                No fields — customers only see the title and details boxes.
+              </p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {draft.fields.map((f, i) => (
+                  <li key={i} className="bg-slate-800 border border-slate-700 rounded-lg p-3 flex flex-col gap-2">
+                    <div className="flex items-center gap-2">
+                      <input value={f.label} onChange={(e) => setField(i, { label: e.target.value })}
+                        placeholder="Question" className={`${controlClass} flex-1 min-w-0`} />
+                      <select value={f.type} onChange={(e) => setField(i, { type: e.target.value as TemplateFieldType })}
+                        className={`${controlClass} w-32`}>
+                        {(Object.keys(FIELD_TYPE_LABEL) as TemplateFieldType[]).map((t) => (
+                          <option key={t} value={t}>{FIELD_TYPE_LABEL[t]}</option>
+                        ))}
+                      </select>
+                      <button type="button" onClick={() => moveField(i, -1)} disabled={i === 0}
+                        className="p-1 text-slate-400 hover:text-white disabled:opacity-30 transition" title="Move up">
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => moveField(i, 1)} disabled={i === draft.fields.length - 1}
+                        className="p-1 text-slate-400 hover:text-white disabled:opacity-30 transition" title="Move down">
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => set('fields', draft.fields.filter((_, j) => j !== i))}
+                        className="p-1 text-slate-500 hover:text-red-400 transition" title="Remove field">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <input value={f.placeholder ?? ''} onChange={(e) => setField(i, { placeholder: e.target.value })}
+                        placeholder="Hint text (optional)" className={`${controlClass} flex-1 min-w-0 !text-xs !py-1.5`} />
+                      <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer whitespace-nowrap">
+                        <input type="checkbox" checked={!!f.required}
+                          onChange={(e) => setField(i, { required: e.target.checked })} className="accent-blue-500" />
+                        Required
+                      </label>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={draft.require_page_url}
+              onChange={(e) => set('require_page_url', e.target.checked)} className="accent-blue-500" />
+            Require at least one affected page URL
+          </label>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Offered on</label>
+            <div className="flex flex-wrap gap-1.5">
+              {PLAN_OPTIONS.map((p) => (
+                <button key={p} type="button" onClick={() => togglePlan(p)} aria-pressed={draft.plans.includes(p)}
+                  className={`text-xs rounded-full px-3 py-1 border transition ${
+                    draft.plans.includes(p)
+                      ? 'border-blue-500 bg-blue-500/15 text-white'
+                      : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                  }`}>
+                  {p}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              {draft.plans.length === 0 ? 'Every plan (none selected).' : `Only ${draft.plans.join(', ')}.`}
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={draft.active}
+              onChange={(e) => set('active', e.target.checked)} className="accent-blue-500" />
+            Active
+          </label>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-3 justify-end">
+            <button type="button" onClick={onCancel}
+              className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving || !draft.name.trim()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition">
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Template
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────
+
+export default function AdminTemplatesPage() {
+  const { can } = usePermissions();
+  const canManage = can('admin.templates.manage');
+  const [templates, setTemplates] = useState<IssueTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [planFilter, setPlanFilter] = useState('');
+  const [editing, setEditing] = useState<IssueTemplate | 'new' | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editorError, setEditorError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [seeding, setSeeding] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    sdk.admin.templates
+      .list()
+      .then(setTemplates)
+      .catch(() => setError('Failed to load templates.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const sorted = templates.slice().sort((a, b) => a.sort_order - b.sort_order);
+  const shown = planFilter ? sorted.filter((t) => offeredOn(t, planFilter)) : sorted;
+
+  function replace(updated: IssueTemplate) {
+    setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+  }
+
+  async function save(body: IssueTemplateInput) {
+    setSaving(true);
+    setEditorError('');
+    try {
+      if (editing === 'new') {
+        const last = sorted[sorted.length - 1];
+        const created = await sdk.admin.templates.create({ ...body, sort_order: (last?.sort_order ?? 0) + 10 });
+        setTemplates((prev) => [...prev, created]);
+      } else if (editing) {
+        replace(await sdk.admin.templates.update(editing.id, body));
+      }
+      setEditing(null);
+    } catch (e) {
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      setEditorError(typeof d === 'string' ? d : 'Failed to save template.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(t: IssueTemplate) {
+    setBusyId(t.id);
+    setError('');
+    try {
+      replace(await sdk.admin.templates.update(t.id, { ...toInput(t), active: !t.active }));
+    } catch {
+      setError(`Failed to ${t.active ? 'deactivate' : 'activate'} “${t.name}”.`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  // Swaps sort order with the neighbour in the full (unfiltered) list
+  async function move(t: IssueTemplate, dir: -1 | 1) {
+    const index = sorted.findIndex((x) => x.id === t.id);
+    const other = sorted[index + dir];
+    if (!other) return;
+    setBusyId(t.id);
+    setError('');
+    try {
+      const [a, b] = await Promise.all([
+        sdk.admin.templates.update(t.id, { ...toInput(t), sort_order: other.sort_order }),
+        sdk.admin.templates.update(other.id, { ...toInput(other), sort_order: t.sort_order }),
+      ]);
+      replace(a);
+      replace(b);
+    } catch {
+      setError('Failed to reorder templates.');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function remove(t: IssueTemplate) {
+    if (!confirm(`Delete the “${t.name}” template? Issues already filed with it are unaffected.`)) return;
+    setBusyId(t.id);
+    setError('');
+    try {
+      await sdk.admin.templates.remove(t.id);
+      setTemplates((prev) => prev.filter((x) => x.id !== t.id));
+    } catch {
+      setError(`Failed to delete “${t.name}”.`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function addStarters() {
+    setSeeding(true);
+    setError('');
+    try {
+      const created: IssueTemplate[] = [];
+      // One at a time so the catalogue keeps the starter order
+      for (const t of STARTER_TEMPLATES) created.push(await sdk.admin.templates.create(t));
+      setTemplates((prev) => [...prev, ...created]);
+    } catch {
+      setError('Failed to add the starter templates.');
+    } finally {
+      setSeeding(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {editing && (
+        <TemplateEditor
+          initial={editing === 'new' ? EMPTY_TEMPLATE : toInput(editing)}
+          saving={saving}
+          error={editorError}
+          onCancel={() => { setEditing(null); setEditorError(''); }}
+          onSave={save}
+        />
+      )}
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Issue Templates</h1>
+          <p className="text-slate-400 text-sm mt-1">Pre-filled starting points customers can pick when filing an issue</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setEditing('new')}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium px-4 py-2 rounded-lg transition"
+          >
+            <Plus className="w-4 h-4" />
+            New Template
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-slate-500">Offered on</span>
+        {['', ...PLAN_OPTIONS].map((p) => (
+          <button
+            key={p || 'all'}
+            onClick={() => setPlanFilter(p)}
+            className={`text-xs rounded-full px-3 py-1 border transition ${
+              planFilter === p
+                ? 'border-blue-500 bg-blue-500/15 text-white'
+                : 'border-slate-700 text-slate-400 hover:border-slate-500'
+            }`}
+          >
+            {p || 'All plans'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm rounded-lg px-4 py-2.5 bg-red-900/20 border border-red-700 text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-slate-400">
+          <Loader2 className="w-4 h-4 animate-spin" /> Loading templates…
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-10 text-center">
+          <FileText className="w-8 h-8 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-300 font-medium">No templates yet</p>
+          <p className="text-slate-500 text-sm mt-1">
+            Start from our set of common WordPress problems, or build your own.
+          </p>
+          {canManage && (
+            <button
+              onClick={addStarters}
+              disabled={seeding}
+              className="mt-4 inline-flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-60 text-white text-sm font-medium px-4 py-2 rounded-lg transition"
+            >
+              {seeding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              Add {STARTER_TEMPLATES.length} starter templates
+            </button>
+          )}
+        </div>
+      ) : shown.length === 0 ? (
+        <p className="text-slate-500 text-sm">No templates are offered on the {planFilter} plan.</p>
+      ) : (
+        <ul className="space-y-2">
+          {shown.map((t) => (
+            <li
+              key={t.id}
+              className={`bg-slate-800 border border-slate-700 rounded-xl px-5 py-4 flex flex-wrap items-center gap-4 ${
+                t.active ? '' : 'opacity-60'
+              }`}
+            >
+              <div className="flex-1 min-w-[12rem]">
+                <div className="flex items-center gap-2">
+                  <p className="text-white font-medium">{t.name}</p>
+                  {!t.active && (
+                    <span className="text-[10px] uppercase tracking-wide text-slate-400 bg-slate-700 px-1.5 py-0.5 rounded">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                <p className="text-slate-400 text-sm mt-0.5">{t.description}</p>
+                <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+                  <span className="text-slate-500">
+                    {t.default_priority} priority · {t.fields.length} field{t.fields.length !== 1 ? 's' : ''}
+                    {t.require_page_url && ' · page URL required'}
+                  </span>
+                  {t.plans.length === 0 ? (
+                    <span className="px-2 py-0.5 rounded-full text-slate-300 bg-slate-700">All plans</span>
+                  ) : (
+                    t.plans.map((p) => (
+                      <span key={p} className={`px-2 py-0.5 rounded-full font-medium ${PLAN_COLORS[p] ?? 'text-slate-400 bg-slate-700'}`}>
+                        {p}
+                      </span>
+                    ))
+                  )}
+                </div>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  {busyId === t.id && <Loader2 className="w-4 h-4 animate-spin text-slate-400 mr-1" />}
+                  {!planFilter && (
+                    <>
+                      <button onClick={() => move(t, -1)} disabled={busyId !== null || sorted[0].id === t.id}
+                        className="p-1.5 text-slate-400 hover:text-white disabled:opacity-30 transition" title="Move up">
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => move(t, 1)} disabled={busyId !== null || sorted[sorted.length - 1].id === t.id}
+                        className="p-1.5 text-slate-400 hover:text-white disabled:opacity-30 transition" title="Move down">
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => toggleActive(t)}
+                    disabled={busyId !== null}
+                    className="text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 px-2.5 py-1 rounded-lg transition disabled:opacity-50"
+                  >
+                    {t.active ? 'Deactivate' : 'Activate'}
+                  </button>
+                  <button onClick={() => setEditing(t)} disabled={busyId !== null}
+                    className="p-1.5 text-slate-400 hover:text-white disabled:opacity-30 transition" title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => remove(t)} disabled={busyId !== null}
+                    className="p-1.5 text-slate-500 hover:text-red-400 disabled:opacity-30 transition" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,56 +1,28 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
-import api from '@/lib/api';
+import sdk from '@/lib/sdk';
+import { usePermissions } from '@/lib/usePermissions';
+import { PLAN_COLORS, PLAN_OPTIONS } from '@/lib/plans';
 import { Loader2, Search, X, ChevronDown, ChevronUp, ExternalLink } from 'lucide-react';
-
-interface AdminUser {
-  id: string;
-  email: string;
-  plan: string;
-  created_at: string | null;
-  site_count: number;
-}
-
-interface UserDetail {
-  id: string;
-  email: string;
-  plan: string;
-  created_at: string | null;
-  sites: { id: string; name: string; url: string; status: string; created_at: string | null }[];
-  recent_issues: {
-    id: string;
-    title: string;
-    status: string;
-    kanban_column: string | null;
-    priority: string;
-    created_at: string | null;
-  }[];
-}
-
-const PLAN_OPTIONS = ['free', 'starter', 'pro', 'enterprise'];
-const PLAN_COLORS: Record<string, string> = {
-  free: 'text-slate-400 bg-slate-700',
-  starter: 'text-blue-400 bg-blue-900/30',
-  pro: 'text-purple-400 bg-purple-900/30',
-  enterprise: 'text-amber-400 bg-amber-900/30',
-};
+import type { AdminUser, AdminUserDetail } from '@/types';
 
 export default function AdminUsersPage() {
+  const { can } = usePermissions();
+  const canManage = can('admin.users.manage');
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [search, setSearch] = useState('');
-  const [selectedUser, setSelectedUser] = useState<UserDetail | null>(null);
+  const [selectedUser, setSelectedUser] = useState<AdminUserDetail | null>(null);
   const [detailLoading, setDetailLoading] = useState(false);
   const [actionMsg, setActionMsg] = useState('');
 
   function loadUsers(q?: string) {
     setLoading(true);
-    const params = q ? `?search=${encodeURIComponent(q)}` : '';
-    api
-      .get<AdminUser[]>(`/api/v1/internal/admin/users${params}`)
-      .then((res) => setUsers(res.data))
+    sdk.admin.users
+      .list(q)
+      .then(setUsers)
       .catch(() => setError('Failed to load users.'))
       .finally(() => setLoading(false));
   }
@@ -65,8 +37,7 @@ export default function AdminUsersPage() {
     setDetailLoading(true);
     setSelectedUser(null);
     try {
-      const res = await api.get<UserDetail>(`/api/v1/internal/admin/users/${userId}`);
-      setSelectedUser(res.data);
+      setSelectedUser(await sdk.admin.users.get(userId));
     } catch {
       setActionMsg('Failed to load user details.');
     } finally {
@@ -77,7 +48,7 @@ export default function AdminUsersPage() {
   async function changePlan(userId: string, plan: string) {
     setActionMsg('');
     try {
-      await api.patch(`/api/v1/internal/admin/users/${userId}/plan`, { plan });
+      await sdk.admin.users.changePlan(userId, plan);
       setActionMsg(`Plan updated to ${plan}`);
       setUsers((prev) => prev.map((u) => (u.id === userId ? { ...u, plan } : u)));
       if (selectedUser?.id === userId) {
@@ -91,7 +62,7 @@ export default function AdminUsersPage() {
   async function toggleStatus(userId: string, active: boolean) {
     setActionMsg('');
     try {
-      await api.patch(`/api/v1/internal/admin/users/${userId}/status`, { active });
+      await sdk.admin.users.setActive(userId, active);
       setActionMsg(active ? 'User reactivated.' : 'User deactivated.');
     } catch {
       setActionMsg('Failed to update status.');
@@ -191,21 +162,25 @@ export default function AdminUsersPage() {
                       </td>
                       <td className="px-4 py-3">
                         <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-                          <select
-                            value={user.plan}
-                            onChange={(e) => changePlan(user.id, e.target.value)}
-                            className="bg-slate-700 border border-slate-600 text-slate-300 text-xs rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
-                          >
-                            {PLAN_OPTIONS.map((p) => (
-                              <option key={p} value={p}>{p}</option>
-                            ))}
-                          </select>
-                          <button
-                            onClick={() => toggleStatus(user.id, false)}
-                            className="text-xs text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/40 px-2 py-1 rounded-lg transition"
-                          >
-                            Deactivate
-                          </button>
+                          {canManage && (
+                            <>
+                              <select
+                                value={user.plan}
+                                onChange={(e) => changePlan(user.id, e.target.value)}
+                                className="bg-slate-700 border border-slate-600 text-slate-300 text-xs rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+                              >
+                                {PLAN_OPTIONS.map((p) => (
+                                  <option key={p} value={p}>{p}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => toggleStatus(user.id, false)}
+                                className="text-xs text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/40 px-2 py-1 rounded-lg transition"
+                              >
+                                Deactivate
+                              </button>
+                            </>
+                          )}
                           {selectedUser?.id === user.id ? (
                             <ChevronUp className="w-4 h-4 text-slate-400" />
                           ) : (
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState } from 'react';
+import type { ApproveFixRequest, Attachment, RejectFixRequest, RejectionCategory } from '@/types';
+import { Check, Image as ImageIcon, Loader2, Star, ThumbsDown, ThumbsUp } from 'lucide-react';
+
+export const REJECTION_CATEGORY_LABEL: Record<RejectionCategory, string> = {
+  not_fixed: "Didn't fix it",
+  broke_something_else: 'Broke something else',
+  wrong_approach: 'Wrong approach',
+};
+
+const REJECTION_CATEGORY_HINT: Record<RejectionCategory, string> = {
+  not_fixed: 'The original problem is still there.',
+  broke_something_else: 'The problem is gone, but something else stopped working.',
+  wrong_approach: "It works, but it isn't how you want it solved.",
+};
+
+const RATING_LABEL = ['', 'Poor', 'Fair', 'Good', 'Great', 'Excellent'];
+
+function Dialog({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-bold text-white mb-4">{title}</h2>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// ── Approve ───────────────────────────────────────────────────────────────
+
+export function ApproveDialog({ title, submitting, error, onCancel, onConfirm }: {
+  title: string;
+  submitting: boolean;
+  error: string;
+  onCancel: () => void;
+  onConfirm: (body: ApproveFixRequest) => void;
+}) {
+  const [rating, setRating] = useState(0);
+  const [hover, setHover] = useState(0);
+  const [comment, setComment] = useState('');
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    onConfirm({
+      rating: rating || undefined,
+      comment: comment.trim() || undefined,
+    });
+  }
+
+  const shown = hover || rating;
+
+  return (
+    <Dialog title={title}>
+      <form onSubmit={submit} className="flex flex-col gap-4">
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">How happy are you with the fix? (optional)</label>
+          <div className="flex items-center gap-1" onMouseLeave={() => setHover(0)}>
+            {[1, 2, 3, 4, 5].map((n) => (
+              <button
+                key={n}
+                type="button"
+                onClick={() => setRating(n === rating ? 0 : n)}
+                onMouseEnter={() => setHover(n)}
+                className="p-0.5"
+                aria-label={`${n} star${n !== 1 ? 's' : ''}`}
+                aria-pressed={rating === n}
+              >
+                <Star className={`w-6 h-6 transition ${n <= shown ? 'text-amber-400 fill-amber-400' : 'text-slate-600'}`} />
+              </button>
+            ))}
+            <span className="text-xs text-slate-400 ml-2">{RATING_LABEL[shown]}</span>
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Anything to add? (optional)</label>
+          <textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={3}
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none" />
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex gap-3 justify-end">
+          <button type="button" onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
+            Cancel
+          </button>
+          <button type="submit" disabled={submitting}
+            className="flex items-center gap-2 bg-green-600 hover:bg-green-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition">
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ThumbsUp className="w-4 h-4" />}
+            Approve
+          </button>
+        </div>
+      </form>
+    </Dialog>
+  );
+}
+
+// ── Reject ────────────────────────────────────────────────────────────────
+
+export function RejectDialog({ title, attempt, attachments, uploadHint, submitting, error, onCancel, onConfirm }: {
+  title: string;
+  /**
+   * The Dev agent's next attempt number, shown so the customer knows the
+   * feedback is used. Left out when rejecting several tickets at once.
+   */
+  attempt?: number;
+  attachments: Attachment[];
+  /**
+   * Points to the Attachments panel when there are no screenshots yet; only
+   * the issue page has one. Elsewhere the empty section is left out.
+   */
+  uploadHint?: boolean;
+  submitting: boolean;
+  error: string;
+  onCancel: () => void;
+  onConfirm: (body: RejectFixRequest) => void;
+}) {
+  const [category, setCategory] = useState<RejectionCategory | null>(null);
+  const [reason, setReason] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const screenshots = attachments.filter((a) => a.mime_type?.startsWith('image/'));
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!category || !reason.trim()) return;
+    onConfirm({
+      category,
+      reason: reason.trim(),
+      attachment_ids: selected.size > 0 ? Array.from(selected) : undefined,
+    });
+  }
+
+  return (
+    <Dialog title={title}>
+      <form onSubmit={submit} className="flex flex-col gap-4">
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">What&apos;s wrong?</label>
+          <div className="flex flex-col gap-2">
+            {(Object.keys(REJECTION_CATEGORY_LABEL) as RejectionCategory[]).map((c) => (
+              <button
+                key={c}
+                type="button"
+                onClick={() => setCategory(c)}
+                aria-pressed={category === c}
+                className={`text-left rounded-lg border px-3 py-2 transition ${
+                  category === c
+                    ? 'border-red-500 bg-red-500/10'
+                    : 'border-slate-700 bg-slate-800 hover:border-slate-500'
+                }`}
+              >
+                <span className="block text-sm text-white font-medium">{REJECTION_CATEGORY_LABEL[c]}</span>
+                <span className="block text-xs text-slate-400 mt-0.5">{REJECTION_CATEGORY_HINT[c]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Details</label>
+          <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={4} required
+            placeholder="What did you try, and what happened?"
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 resize-none" />
+        </div>
+        {(screenshots.length > 0 || uploadHint) && (
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Screenshots (optional)</label>
+            {screenshots.length === 0 ? (
+              <p className="text-xs text-slate-500">
+                Upload screenshots in the Attachments panel to include them here.
+              </p>
+            ) : (
+              <ul className="flex flex-col gap-1.5">
+                {screenshots.map((a) => (
+                  <li key={a.id}>
+                    <button
+                      type="button"
+                      onClick={() => toggle(a.id)}
+                      aria-pressed={selected.has(a.id)}
+                      className={`w-full flex items-center gap-2 rounded-lg border px-3 py-1.5 text-left text-sm transition ${
+                        selected.has(a.id)
+                          ? 'border-blue-500 bg-blue-500/10 text-white'
+                          : 'border-slate-700 bg-slate-800 text-slate-300 hover:border-slate-500'
+                      }`}
+                    >
+                      {selected.has(a.id)
+                        ? <Check className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                        : <ImageIcon className="w-4 h-4 text-slate-500 flex-shrink-0" />}
+                      <span className="truncate">{a.filename}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {attempt !== undefined && (
+          <p className="text-xs text-slate-500">
+            The Dev agent reads this before attempt #{attempt}.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex gap-3 justify-end">
+          <button type="button" onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
+            Cancel
+          </button>
+          <button type="submit" disabled={submitting || !category || !reason.trim()}
+            className="flex items-center gap-2 bg-red-600 hover:bg-red-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition">
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ThumbsDown className="w-4 h-4" />}
+            Send Back
+          </button>
+        </div>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import type { KanbanColumn } from '@/types';
+
+export const KANBAN_LABELS: Record<KanbanColumn, string> = {
+  triage: 'Triage',
+  ready_for_uat_approval: 'Ready for Approval',
+  todo: 'Queued for Dev',
+  in_progress: 'In Progress',
+  ready_for_qa: 'Ready for QA',
+  in_qa: 'QA in Progress',
+  ready_for_uat: 'Ready for Your Review',
+  done: 'Done',
+  dismissed: 'Dismissed',
+};
+
+const KANBAN_COLORS: Record<KanbanColumn, string> = {
+  triage: 'bg-slate-500/10 text-slate-300 border border-slate-600/30',
+  ready_for_uat_approval: 'bg-amber-500/10 text-amber-300 border border-amber-600/30',
+  todo: 'bg-yellow-500/10 text-yellow-300 border border-yellow-600/30',
+  in_progress: 'bg-blue-500/10 text-blue-300 border border-blue-600/30',
+  ready_for_qa: 'bg-purple-500/10 text-purple-300 border border-purple-600/30',
+  in_qa: 'bg-purple-500/10 text-purple-300 border border-purple-600/30',
+  ready_for_uat: 'bg-orange-500/10 text-orange-300 border border-orange-600/30',
+  done: 'bg-green-500/10 text-green-300 border border-green-600/30',
+  dismissed: 'bg-slate-500/10 text-slate-400 border border-slate-600/30',
+};
+
+export function KanbanBadge({ col }: { col: KanbanColumn }) {
+  return (
+    <span className={`inline-block text-xs px-2.5 py-1 rounded-full font-medium ${KANBAN_COLORS[col]}`}>
+      {KANBAN_LABELS[col]}
+    </span>
+  );
+}
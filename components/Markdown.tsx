@@ -0,0 +1,215 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { parseMarkdown } from '@/lib/markdown';
+import type { MdBlock, MdInline } from '@/lib/markdown';
+import { highlight } from '@/lib/highlight';
+import type { TokenKind } from '@/lib/highlight';
+import { Check, ChevronDown, ChevronUp, Copy } from 'lucide-react';
+
+// Code blocks longer than this start collapsed
+const COLLAPSE_LINES = 15;
+
+const TOKEN_CLASS: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-green-300',
+  number: 'text-amber-300',
+  keyword: 'text-purple-300',
+  tag: 'text-blue-300',
+};
+
+/** Syntax-highlighted code as inline spans; the caller supplies the <pre> or cell. */
+export function HighlightedCode({ code, lang }: { code: string; lang: string }) {
+  const tokens = useMemo(() => highlight(code, lang), [code, lang]);
+  return (
+    <>
+      {tokens.map((t, i) =>
+        t.kind === 'plain' ? t.text : <span key={i} className={TOKEN_CLASS[t.kind]}>{t.text}</span>
+      )}
+    </>
+  );
+}
+
+function useCopy(): [boolean, (text: string) => void] {
+  const [copied, setCopied] = useState(false);
+  function copy(text: string) {
+    navigator.clipboard?.writeText(text).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    }).catch(() => {});
+  }
+  return [copied, copy];
+}
+
+// ── Code block ────────────────────────────────────────────────────────────
+
+function CodeBlock({ code, lang }: { code: string; lang: string }) {
+  const lines = code.split('\n').length;
+  const collapsible = lines > COLLAPSE_LINES;
+  const [expanded, setExpanded] = useState(!collapsible);
+  const [copied, copy] = useCopy();
+
+  return (
+    <div className="my-2 rounded-lg border border-slate-600/60 bg-slate-900 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-slate-700/60 text-[10px] text-slate-500">
+        <span className="font-mono">{lang || 'text'}</span>
+        <button
+          type="button"
+          onClick={() => copy(code)}
+          className="flex items-center gap-1 hover:text-white transition"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre
+        className={`px-3 py-2 text-xs leading-relaxed font-mono text-slate-200 overflow-x-auto ${
+          expanded ? '' : 'max-h-64 overflow-y-hidden'
+        }`}
+      >
+        <code>
+          <HighlightedCode code={code} lang={lang} />
+        </code>
+      </pre>
+      {collapsible && (
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="w-full flex items-center justify-center gap-1 py-1 text-[10px] text-slate-400 hover:text-white border-t border-slate-700/60 transition"
+        >
+          {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          {expanded ? 'Show less' : `Show all ${lines} lines`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ── Inline ────────────────────────────────────────────────────────────────
+
+function FilePath({ path, onClick }: { path: string; onClick?: (path: string) => void }) {
+  const [copied, copy] = useCopy();
+  return (
+    <button
+      type="button"
+      onClick={() => (onClick ? onClick(path) : copy(path))}
+      className="font-mono text-[0.85em] text-blue-300 hover:text-blue-200 underline decoration-dotted underline-offset-2 break-all text-left"
+      title={onClick ? 'Open file' : copied ? 'Copied' : 'Copy path'}
+    >
+      {path}
+      {copied && <Check className="inline w-3 h-3 ml-1 text-green-400" />}
+    </button>
+  );
+}
+
+function Inlines({ nodes, onFileClick }: { nodes: MdInline[]; onFileClick?: (path: string) => void }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case 'text':
+            return node.text;
+          case 'code':
+            return (
+              <code key={i} className="font-mono text-[0.85em] bg-slate-900/70 text-slate-100 px-1 py-0.5 rounded">
+                {node.text}
+              </code>
+            );
+          case 'strong':
+            return <strong key={i} className="font-semibold text-white"><Inlines nodes={node.children} onFileClick={onFileClick} /></strong>;
+          case 'em':
+            return <em key={i}><Inlines nodes={node.children} onFileClick={onFileClick} /></em>;
+          case 'link':
+            return (
+              <a
+                key={i}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-blue-300 hover:text-blue-200 underline underline-offset-2 break-all"
+              >
+                <Inlines nodes={node.children} onFileClick={onFileClick} />
+              </a>
+            );
+          case 'path':
+            return <FilePath key={i} path={node.path} onClick={onFileClick} />;
+        }
+      })}
+    </>
+  );
+}
+
+// ── Blocks ────────────────────────────────────────────────────────────────
+
+const HEADING_CLASS = {
+  1: 'text-base font-bold text-white',
+  2: 'text-sm font-bold text-white',
+  3: 'text-sm font-semibold text-slate-100',
+};
+
+function Blocks({ blocks, onFileClick }: { blocks: MdBlock[]; onFileClick?: (path: string) => void }) {
+  return (
+    <>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'paragraph':
+            return (
+              <p key={i} className="whitespace-pre-wrap break-words">
+                <Inlines nodes={block.children} onFileClick={onFileClick} />
+              </p>
+            );
+          case 'heading':
+            return (
+              <p key={i} className={`${HEADING_CLASS[block.level]} mt-1`}>
+                <Inlines nodes={block.children} onFileClick={onFileClick} />
+              </p>
+            );
+          case 'code':
+            return <CodeBlock key={i} code={block.code} lang={block.lang} />;
+          case 'list': {
+            const items = block.items.map((item, j) => (
+              <li key={j} className="whitespace-pre-wrap break-words">
+                <Inlines nodes={item} onFileClick={onFileClick} />
+              </li>
+            ));
+            return block.ordered ? (
+              <ol key={i} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+            ) : (
+              <ul key={i} className="list-disc pl-5 space-y-0.5">{items}</ul>
+            );
+          }
+          case 'quote':
+            return (
+              <blockquote key={i} className="border-l-2 border-slate-500 pl-3 text-slate-300 space-y-2">
+                <Blocks blocks={block.children} onFileClick={onFileClick} />
+              </blockquote>
+            );
+          case 'rule':
+            return <hr key={i} className="border-slate-600" />;
+        }
+      })}
+    </>
+  );
+}
+
+/**
+ * Renders agent-authored Markdown. Output is built from React elements only,
+ * so HTML in the message shows up as text. File paths copy themselves to the
+ * clipboard unless `onFileClick` is given.
+ */
+export function Markdown({
+  content,
+  onFileClick,
+}: {
+  content: string;
+  onFileClick?: (path: string) => void;
+}) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return (
+    <div className="space-y-2 break-words min-w-0">
+      <Blocks blocks={blocks} onFileClick={onFileClick} />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { createRealtimeClient } from '@/lib/realtime';
+import type { ConnectionState, RealtimeChannel, RealtimeClient } from '@/lib/realtime';
+import type { WsEvent } from '@/types';
+import { Loader2 } from 'lucide-react';
+
+const RealtimeContext = createContext<RealtimeClient | null>(null);
+
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const [client] = useState(createRealtimeClient);
+
+  useEffect(() => () => client.close(), [client]);
+
+  return <RealtimeContext.Provider value={client}>{children}</RealtimeContext.Provider>;
+}
+
+function useRealtimeClient(): RealtimeClient {
+  const client = useContext(RealtimeContext);
+  if (!client) throw new Error('useRealtime* hooks must be used inside <RealtimeProvider>');
+  return client;
+}
+
+/**
+ * Calls `handler` for every event on `channel` while the component is
+ * mounted. The handler may change between renders without resubscribing.
+ * Pass null to stay unsubscribed.
+ */
+export function useRealtimeChannel(
+  channel: RealtimeChannel | null,
+  handler: (event: WsEvent) => void
+): void {
+  const client = useRealtimeClient();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!channel) return;
+    return client.subscribe(channel, (event) => handlerRef.current(event));
+  }, [client, channel]);
+}
+
+export function useConnectionState(): ConnectionState {
+  const client = useRealtimeClient();
+  const [state, setState] = useState<ConnectionState>(client.getState);
+
+  useEffect(() => {
+    setState(client.getState());
+    return client.onStateChange(setState);
+  }, [client]);
+
+  return state;
+}
+
+/** Small "Reconnecting…" pill; renders nothing while the socket is healthy or unused. */
+export function RealtimeStatus() {
+  const state = useConnectionState();
+  if (state !== 'reconnecting') return null;
+
+  return (
+    <span
+      className="flex items-center gap-1.5 text-xs text-amber-300 bg-amber-500/10 border border-amber-600/30 px-2.5 py-1 rounded-full"
+      title="Live updates paused — reconnecting. Nothing will be missed."
+    >
+      <Loader2 className="w-3 h-3 animate-spin" />
+      Reconnecting…
+    </span>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  ANNOTATION_COLORS,
+  annotatedName,
+  annotationScale,
+  drawAnnotations,
+  isTooSmall,
+} from '@/lib/annotate';
+import type { Annotation, AnnotationTool } from '@/lib/annotate';
+import { AlertCircle, ArrowUpRight, EyeOff, Loader2, Square, Trash2, Type, Undo2, X } from 'lucide-react';
+
+const TOOLS: { tool: AnnotationTool; label: string; icon: typeof Square }[] = [
+  { tool: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { tool: 'box', label: 'Box', icon: Square },
+  { tool: 'blur', label: 'Blur', icon: EyeOff },
+  { tool: 'text', label: 'Text', icon: Type },
+];
+
+interface TextDraft {
+  // Image pixels, for the annotation
+  x: number;
+  y: number;
+  // CSS pixels within the canvas wrapper, for the input
+  left: number;
+  top: number;
+}
+
+/**
+ * Full-screen editor for marking up a screenshot with arrows, boxes, text
+ * labels and blurred-out regions. `onSave` gets the flattened PNG; the
+ * original file is never modified.
+ */
+export function ScreenshotAnnotator({ file, onCancel, onSave, onSkip }: {
+  file: Blob & { name?: string };
+  onCancel: () => void;
+  onSave: (annotated: File) => void;
+  /** Offered as "Attach original", for when the screenshot needs no markup. */
+  onSkip?: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [textDraft, setTextDraft] = useState<TextDraft | null>(null);
+  const [textValue, setTextValue] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => setLoadError(true);
+    img.src = url;
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+    if (canvas.width !== image.naturalWidth || canvas.height !== image.naturalHeight) {
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+    }
+    drawAnnotations(ctx, image, draft ? [...annotations, draft] : annotations);
+  }, [image, annotations, draft]);
+
+  // Escape and undo, unless the text label input has focus
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (textDraft) return;
+      if (e.key === 'Escape') onCancel();
+      else if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        setAnnotations((prev) => prev.slice(0, -1));
+      }
+    }
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [textDraft, onCancel]);
+
+  function toImagePoint(e: React.PointerEvent) {
+    const canvas = canvasRef.current!;
+    const r = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - r.left) * canvas.width) / r.width,
+      y: ((e.clientY - r.top) * canvas.height) / r.height,
+    };
+  }
+
+  function pendingText(): Annotation | null {
+    return textDraft && textValue.trim()
+      ? { kind: 'text', x: textDraft.x, y: textDraft.y, text: textValue.trim(), color }
+      : null;
+  }
+
+  function commitText() {
+    const pending = pendingText();
+    if (pending) setAnnotations((prev) => [...prev, pending]);
+    setTextDraft(null);
+    setTextValue('');
+  }
+
+  function handlePointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!image || e.button !== 0) return;
+    const p = toImagePoint(e);
+
+    if (tool === 'text') {
+      commitText();
+      const wrapper = wrapperRef.current!.getBoundingClientRect();
+      setTextDraft({ x: p.x, y: p.y, left: e.clientX - wrapper.left, top: e.clientY - wrapper.top });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(
+      tool === 'blur'
+        ? { kind: 'blur', x1: p.x, y1: p.y, x2: p.x, y2: p.y }
+        : { kind: tool, x1: p.x, y1: p.y, x2: p.x, y2: p.y, color }
+    );
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!draft || draft.kind === 'text') return;
+    const p = toImagePoint(e);
+    setDraft({ ...draft, x2: p.x, y2: p.y });
+  }
+
+  function handlePointerUp() {
+    if (draft && !isTooSmall(draft)) setAnnotations((prev) => [...prev, draft]);
+    setDraft(null);
+  }
+
+  function save() {
+    if (!image) return;
+    setSaving(true);
+    // Flatten onto a fresh canvas so an in-progress drag never leaks in
+    const out = document.createElement('canvas');
+    out.width = image.naturalWidth;
+    out.height = image.naturalHeight;
+    const ctx = out.getContext('2d');
+    if (!ctx) {
+      setSaving(false);
+      return;
+    }
+    const pending = pendingText();
+    drawAnnotations(ctx, image, pending ? [...annotations, pending] : annotations);
+    out.toBlob((blob) => {
+      setSaving(false);
+      if (blob) onSave(new File([blob], annotatedName(file.name || 'screenshot.png'), { type: 'image/png' }));
+    }, 'image/png');
+  }
+
+  const fontPx = image && canvasRef.current
+    ? (annotationScale(image.naturalWidth).font * canvasRef.current.getBoundingClientRect().width) / image.naturalWidth
+    : 16;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex flex-col p-4 sm:p-6"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Annotate screenshot"
+    >
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 pb-3">
+        <div className="flex items-center gap-1 bg-slate-900 border border-slate-700 rounded-lg p-1">
+          {TOOLS.map(({ tool: t, label, icon: Icon }) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => { commitText(); setTool(t); }}
+              aria-pressed={tool === t}
+              title={label}
+              className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs transition ${
+                tool === t ? 'bg-blue-600 text-white' : 'text-slate-300 hover:text-white hover:bg-slate-800'
+              }`}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className={`flex items-center gap-1.5 transition ${tool === 'blur' ? 'opacity-30 pointer-events-none' : ''}`}>
+          {ANNOTATION_COLORS.map((c) => (
+            <button
+              key={c}
+              type="button"
+              onClick={() => setColor(c)}
+              aria-label={`Colour ${c}`}
+              aria-pressed={color === c}
+              className={`w-6 h-6 rounded-full border-2 transition ${color === c ? 'border-white scale-110' : 'border-slate-700'}`}
+              style={{ backgroundColor: c }}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 text-slate-300">
+          <button
+            type="button"
+            onClick={() => setAnnotations((prev) => prev.slice(0, -1))}
+            disabled={annotations.length === 0}
+            className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition disabled:opacity-30"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnnotations([])}
+            disabled={annotations.length === 0}
+            className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition disabled:opacity-30"
+            title="Clear all"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <button
+          type="button"
+          onClick={onCancel}
+          className="ml-auto p-2 text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 min-h-0 flex items-center justify-center overflow-hidden">
+        {loadError ? (
+          <div className="flex flex-col items-center gap-2 text-slate-400">
+            <AlertCircle className="w-8 h-8 text-red-400" />
+            <p className="text-sm">This image couldn&apos;t be opened for editing.</p>
+          </div>
+        ) : !image ? (
+          <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+        ) : (
+          <div ref={wrapperRef} className="relative max-w-full max-h-full">
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDraft(null)}
+              className={`block max-w-full max-h-[calc(100vh-10rem)] rounded-lg shadow-2xl touch-none ${
+                tool === 'text' ? 'cursor-text' : 'cursor-crosshair'
+              }`}
+            />
+            {textDraft && (
+              <input
+                key={`${textDraft.left},${textDraft.top}`}
+                autoFocus
+                value={textValue}
+                onChange={(e) => setTextValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitText();
+                  else if (e.key === 'Escape') { setTextDraft(null); setTextValue(''); }
+                }}
+                placeholder="Label"
+                className="absolute bg-slate-900/90 border border-blue-500 rounded px-1 font-semibold outline-none min-w-[8rem]"
+                style={{ left: textDraft.left, top: textDraft.top, color, fontSize: fontPx }}
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center gap-3 pt-3">
+        <p className="text-xs text-slate-400 flex-1">
+          {tool === 'text'
+            ? 'Click where the label should go, type, then press Enter.'
+            : tool === 'blur'
+              ? 'Drag over passwords, emails or anything else that shouldn’t be shared.'
+              : 'Drag on the screenshot to draw.'}
+        </p>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-slate-400 hover:text-white transition"
+        >
+          Cancel
+        </button>
+        {onSkip && (
+          <button
+            type="button"
+            onClick={onSkip}
+            className="px-4 py-2 text-sm text-slate-200 bg-slate-800 hover:bg-slate-700 rounded-lg transition"
+          >
+            Attach original
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={save}
+          disabled={!image || saving || (annotations.length === 0 && !pendingText())}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-semibold px-4 py-2 rounded-lg transition"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Attach annotated
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import type { UploadItem } from '@/lib/useUploadQueue';
+import { formatBytes } from '@/lib/uploads';
+import { AlertCircle, Loader2, RotateCcw, X } from 'lucide-react';
+
+/** In-progress and failed uploads from `useUploadQueue`. Renders nothing when empty. */
+export function UploadQueue({ items, onCancel, onRetry, onDismiss }: {
+  items: UploadItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="flex flex-col gap-1.5">
+      {items.map((item) => {
+        const failed = item.status === 'failed' || item.status === 'rejected';
+        return (
+          <li
+            key={item.id}
+            className={`rounded-lg border px-3 py-2 ${
+              failed ? 'border-red-500/40 bg-red-500/5' : 'border-slate-700 bg-slate-800/60'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              {failed
+                ? <AlertCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
+                : <Loader2 className="w-3.5 h-3.5 text-blue-400 animate-spin flex-shrink-0" />}
+              <span className="flex-1 min-w-0 truncate text-sm text-slate-200" title={item.file.name}>
+                {item.file.name}
+              </span>
+              <span className="text-xs text-slate-500 flex-shrink-0">
+                {item.status === 'uploading' && `${Math.round(item.progress * 100)}%`}
+                {item.status === 'queued' && 'Waiting…'}
+                {item.status === 'retrying' && 'Retrying…'}
+                {failed && formatBytes(item.file.size)}
+              </span>
+              {item.status === 'failed' && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(item.id)}
+                  className="p-0.5 text-slate-400 hover:text-white transition"
+                  title="Retry"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => (failed ? onDismiss(item.id) : onCancel(item.id))}
+                className="p-0.5 text-slate-400 hover:text-white transition"
+                title={failed ? 'Dismiss' : 'Cancel upload'}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {failed ? (
+              item.error && <p className="text-xs text-red-400 mt-1">{item.error}</p>
+            ) : (
+              <div className="h-1 mt-1.5 rounded-full bg-slate-700 overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-[width] duration-200"
+                  style={{ width: `${Math.round(item.progress * 100)}%` }}
+                />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+/** Index of the first row whose bottom edge is below `y`. */
+function firstRowBelow(offsets: number[], heights: number[], y: number): number {
+  let lo = 0;
+  let hi = offsets.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid] + heights[mid] <= y) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Renders only the rows near the viewport of a page-scrolled list whose row
+ * heights are known up front, so thousands of rows cost no more than a
+ * screenful. `onEndReached` fires when the rendered window gets close to
+ * the last row.
+ */
+export function VirtualList<T>({
+  items,
+  rowHeight,
+  gap = 0,
+  overscan = 6,
+  endThreshold = 10,
+  getKey,
+  renderRow,
+  onEndReached,
+}: {
+  items: T[];
+  /** A fixed height, or one per row. */
+  rowHeight: number | ((item: T) => number);
+  gap?: number;
+  /** Rows rendered beyond each edge of the viewport. */
+  overscan?: number;
+  /** How many rows from the end `onEndReached` fires. */
+  endThreshold?: number;
+  getKey: (item: T) => string;
+  renderRow: (item: T) => React.ReactNode;
+  onEndReached?: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const count = items.length;
+
+  const { offsets, heights, totalHeight } = useMemo(() => {
+    const heights = items.map((item) => (typeof rowHeight === 'number' ? rowHeight : rowHeight(item)));
+    const offsets: number[] = [];
+    let y = 0;
+    heights.forEach((h) => {
+      offsets.push(y);
+      y += h + gap;
+    });
+    return { offsets, heights, totalHeight: Math.max(0, y - gap) };
+  }, [items, rowHeight, gap]);
+
+  useEffect(() => {
+    function measure() {
+      const el = ref.current;
+      if (!el) return;
+      const top = el.getBoundingClientRect().top;
+      const first = firstRowBelow(offsets, heights, -top);
+      const last = firstRowBelow(offsets, heights, window.innerHeight - top);
+      const start = Math.max(0, first - overscan);
+      const end = Math.min(offsets.length, last + 1 + overscan);
+      setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+    }
+    measure();
+    window.addEventListener('scroll', measure, { passive: true });
+    window.addEventListener('resize', measure);
+    return () => {
+      window.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [offsets, heights, overscan]);
+
+  useEffect(() => {
+    if (onEndReached && count > 0 && range.end >= count - endThreshold) onEndReached();
+  }, [range.end, count, endThreshold, onEndReached]);
+
+  return (
+    <div ref={ref} className="relative" style={{ height: totalHeight }}>
+      {items.slice(range.start, range.end).map((item, i) => (
+        <div
+          key={getKey(item)}
+          className="absolute inset-x-0"
+          style={{ top: offsets[range.start + i], height: heights[range.start + i] }}
+        >
+          {renderRow(item)}
+        </div>
+      ))}
+    </div>
+  );
+}
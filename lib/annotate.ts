@@ -0,0 +1,133 @@
+// Shapes for the screenshot annotator and the canvas code that paints them.
+// Coordinates are in image pixels, so an annotation lands in the same place
+// whatever size the editor happens to display the screenshot at.
+
+export type AnnotationTool = 'arrow' | 'box' | 'blur' | 'text';
+
+/** A drag from (x1, y1) to (x2, y2). */
+interface Span {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export type Annotation =
+  | (Span & { kind: 'arrow' | 'box'; color: string })
+  | (Span & { kind: 'blur' })
+  | { kind: 'text'; x: number; y: number; text: string; color: string };
+
+export const ANNOTATION_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#ffffff'];
+
+// Drags shorter than this are treated as stray clicks
+const MIN_SHAPE_PX = 4;
+
+/** Stroke width, font size and blur block size scale with the screenshot. */
+export function annotationScale(imageWidth: number) {
+  return {
+    stroke: Math.max(3, Math.round(imageWidth / 320)),
+    font: Math.max(16, Math.round(imageWidth / 55)),
+    block: Math.max(8, Math.round(imageWidth / 120)),
+  };
+}
+
+export function isTooSmall(a: Annotation): boolean {
+  if (a.kind === 'text') return !a.text.trim();
+  return Math.abs(a.x2 - a.x1) < MIN_SHAPE_PX && Math.abs(a.y2 - a.y1) < MIN_SHAPE_PX;
+}
+
+function rect(a: Span) {
+  return {
+    x: Math.min(a.x1, a.x2),
+    y: Math.min(a.y1, a.y2),
+    w: Math.abs(a.x2 - a.x1),
+    h: Math.abs(a.y2 - a.y1),
+  };
+}
+
+// Pixelates rather than blurs: the canvas `filter` property isn't available
+// everywhere, and coarse blocks can't be sharpened back into readable text.
+function pixelate(ctx: CanvasRenderingContext2D, image: CanvasImageSource, a: Span, block: number) {
+  const { x, y, w, h } = rect(a);
+  if (w < 1 || h < 1) return;
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(w / block));
+  small.height = Math.max(1, Math.ceil(h / block));
+  const sctx = small.getContext('2d');
+  if (!sctx) return;
+  sctx.drawImage(image, x, y, w, h, 0, 0, small.width, small.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, w, h);
+  ctx.restore();
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, a: Span, stroke: number) {
+  const angle = Math.atan2(a.y2 - a.y1, a.x2 - a.x1);
+  const head = stroke * 4;
+  ctx.beginPath();
+  ctx.moveTo(a.x1, a.y1);
+  // Stop the shaft short so its rounded end doesn't poke past the tip
+  ctx.lineTo(a.x2 - Math.cos(angle) * head * 0.8, a.y2 - Math.sin(angle) * head * 0.8);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(a.x2, a.y2);
+  ctx.lineTo(a.x2 - head * Math.cos(angle - Math.PI / 7), a.y2 - head * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(a.x2 - head * Math.cos(angle + Math.PI / 7), a.y2 - head * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawText(ctx: CanvasRenderingContext2D, a: Annotation & { kind: 'text' }, font: number) {
+  ctx.font = `600 ${font}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.textBaseline = 'top';
+  const pad = Math.round(font / 3);
+  const width = ctx.measureText(a.text).width;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+  ctx.fillRect(a.x - pad, a.y - pad, width + pad * 2, font + pad * 2);
+  ctx.fillStyle = a.color;
+  ctx.fillText(a.text, a.x, a.y);
+}
+
+/**
+ * Paints the screenshot and its annotations onto `ctx`, which should be the
+ * image's natural size. Blurs go first so they only ever hide the
+ * screenshot, never another annotation.
+ */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, image: HTMLImageElement, annotations: Annotation[]) {
+  const { stroke, font, block } = annotationScale(image.naturalWidth);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.drawImage(image, 0, 0);
+
+  for (const a of annotations) {
+    if (a.kind === 'blur') pixelate(ctx, image, a, block);
+  }
+
+  ctx.lineWidth = stroke;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+  for (const a of annotations) {
+    switch (a.kind) {
+      case 'box': {
+        const { x, y, w, h } = rect(a);
+        ctx.strokeStyle = a.color;
+        ctx.strokeRect(x, y, w, h);
+        break;
+      }
+      case 'arrow':
+        ctx.strokeStyle = a.color;
+        ctx.fillStyle = a.color;
+        drawArrow(ctx, a, stroke);
+        break;
+      case 'text':
+        drawText(ctx, a, font);
+        break;
+    }
+  }
+}
+
+/** "screenshot.png" → "screenshot-annotated.png" */
+export function annotatedName(filename: string): string {
+  const base = filename.replace(/\.[^.]+$/, '');
+  return `${base}-annotated.png`;
+}
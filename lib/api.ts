@@ -1,4 +1,9 @@
 import axios from 'axios';
+import type { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import type { TokenResponse } from '@/types';
+import { clearSession, getAccessToken, getRefreshToken, storeSession } from './session';
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
 
 const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:5000',
@@ -8,14 +13,56 @@ const api = axios.create({
   // that the browser must set for multipart/form-data.
 });
 
-// Request interceptor — attach Bearer token
+// Concurrent 401s share a single refresh: the first failing request starts
+// it, every other request (failed or not yet sent) waits on the same promise
+// and is replayed with the new access token. The session is only dropped when
+// the refresh itself is rejected.
+let refreshPromise: Promise<string> | null = null;
+
+// Endpoints whose 401 means "bad credentials", not "expired access token".
+const NO_REFRESH_PATHS = [
+  '/api/v1/auth/login',
+  '/api/v1/auth/register',
+  '/api/v1/auth/refresh',
+  '/api/v1/auth/logout',
+];
+
+function skipsRefresh(url: string | undefined): boolean {
+  return !!url && NO_REFRESH_PATHS.some((path) => url.startsWith(path));
+}
+
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    const refreshToken = getRefreshToken();
+    const request = refreshToken
+      ? api
+          .post<TokenResponse>('/api/v1/auth/refresh', { refresh_token: refreshToken })
+          .then((res) => {
+            storeSession(res.data);
+            return res.data.access_token;
+          })
+      : Promise.reject(new Error('No refresh token'));
+    refreshPromise = request.finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+function endSession(): void {
+  if (typeof window === 'undefined') return;
+  clearSession();
+  window.location.href = '/login';
+}
+
+// Request interceptor — wait for an in-flight refresh, then attach Bearer token
 api.interceptors.request.use(
-  (config) => {
-    const token =
-      typeof window !== 'undefined'
-        ? localStorage.getItem('sitedoc_token')
-        : null;
+  async (config) => {
+    if (refreshPromise && !skipsRefresh(config.url)) {
+      await refreshPromise.catch(() => undefined);
+    }
 
+    const token = getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -24,17 +71,35 @@ api.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
-// Response interceptor — auto-logout on 401
+// Response interceptor — refresh and replay on 401, log out if refresh fails
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('sitedoc_token');
-        window.location.href = '/login';
-      }
+  async (error: AxiosError) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      typeof window === 'undefined' ||
+      skipsRefresh(config.url)
+    ) {
+      return Promise.reject(error);
+    }
+
+    // Already replayed once with a fresh token — the session is gone.
+    if (config._retried) {
+      endSession();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
+
+    try {
+      await refreshAccessToken();
+    } catch {
+      endSession();
+      return Promise.reject(error);
+    }
+
+    config._retried = true;
+    return api(config);
   }
 );
 
@@ -1,52 +1,69 @@
-import api from './api';
-
-const TOKEN_KEY = 'sitedoc_token';
-
-function setToken(token: string): void {
-  if (typeof window === 'undefined') return;
-  localStorage.setItem(TOKEN_KEY, token);
-  // Mirror to cookie so Next.js middleware (edge runtime) can read it
-  document.cookie = `${TOKEN_KEY}=${token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
-}
-
-function clearToken(): void {
-  if (typeof window === 'undefined') return;
-  localStorage.removeItem(TOKEN_KEY);
-  document.cookie = `${TOKEN_KEY}=; path=/; max-age=0`;
-}
+import { refreshAccessToken } from './api';
+import { auth } from './sdk';
+import { clearSession, getAccessToken, getRefreshToken, storeSession } from './session';
 
 export async function login(email: string, password: string): Promise<string> {
-  const response = await api.post<{ access_token: string }>('/api/v1/auth/login', {
-    email,
-    password,
-  });
-  const token = response.data.access_token;
-  setToken(token);
-  return token;
+  const tokens = await auth.login({ email, password });
+  storeSession(tokens);
+  return tokens.access_token;
 }
 
 export async function register(email: string, password: string): Promise<string> {
-  const response = await api.post<{ access_token: string }>('/api/v1/auth/register', {
-    email,
-    password,
-  });
-  const token = response.data.access_token;
-  setToken(token);
-  return token;
+  const tokens = await auth.register({ email, password });
+  storeSession(tokens);
+  return tokens.access_token;
 }
 
-export function logout(): void {
-  clearToken();
+export async function logout(): Promise<void> {
+  // Revoke the refresh token server-side so a copied token can't outlive
+  // the session. Best effort — local state is cleared either way.
+  const refreshToken = getRefreshToken();
+  if (refreshToken) {
+    await auth.logout({ refresh_token: refreshToken }).catch(() => undefined);
+  }
+  clearSession();
   if (typeof window !== 'undefined') {
     window.location.href = '/login';
   }
 }
 
+/**
+ * Trades a stored refresh token for a new access token (and cookie), e.g.
+ * after middleware bounced a request whose access token had expired.
+ * Resolves false — and forgets the stale tokens — if that isn't possible.
+ */
+export async function restoreSession(): Promise<boolean> {
+  if (!getRefreshToken()) return false;
+  try {
+    await refreshAccessToken();
+    return true;
+  } catch {
+    clearSession();
+    return false;
+  }
+}
+
+/**
+ * Sanitises a `from` redirect parameter: only same-origin absolute paths are
+ * allowed, so the login page can't be used as an open redirect.
+ */
+export function safeRedirectPath(from: string | null, fallback = '/dashboard'): string {
+  if (!from || !from.startsWith('/') || from.startsWith('//') || from.startsWith('/\\')) {
+    return fallback;
+  }
+  return from;
+}
+
+export function loginPath(from: string): string {
+  return `/login?from=${encodeURIComponent(from)}`;
+}
+
 export function getToken(): string | null {
-  if (typeof window === 'undefined') return null;
-  return localStorage.getItem(TOKEN_KEY);
+  return getAccessToken();
 }
 
 export function isAuthenticated(): boolean {
-  return !!getToken();
+  // A refresh token alone is enough: the API client renews the access token
+  // transparently on the first 401.
+  return !!getToken() || !!getRefreshToken();
 }
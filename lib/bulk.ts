@@ -0,0 +1,43 @@
+// Runs one API call per item for bulk actions, a few at a time so a large
+// selection doesn't flood the API, and collects what failed instead of
+// stopping at the first error.
+
+const DEFAULT_CONCURRENCY = 4;
+
+export interface BulkFailure<T> {
+  item: T;
+  message: string;
+}
+
+export interface BulkOutcome<T, R> {
+  succeeded: { item: T; result: R }[];
+  failed: BulkFailure<T>[];
+}
+
+export function bulkErrorMessage(e: unknown): string {
+  const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+  return typeof d === 'string' ? d : 'Request failed';
+}
+
+export async function runBulk<T, R>(
+  items: T[],
+  action: (item: T) => Promise<R>,
+  concurrency = DEFAULT_CONCURRENCY,
+): Promise<BulkOutcome<T, R>> {
+  const outcome: BulkOutcome<T, R> = { succeeded: [], failed: [] };
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        outcome.succeeded.push({ item, result: await action(item) });
+      } catch (e) {
+        outcome.failed.push({ item, message: bulkErrorMessage(e) });
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return outcome;
+}
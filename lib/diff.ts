@@ -0,0 +1,80 @@
+// Parses the unified diffs the Dev agent reports for each changed file into
+// rows the Changes tab can lay out either unified or side by side.
+
+export type DiffLineKind = 'context' | 'add' | 'del';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  oldNo: number | null;
+  newNo: number | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  lines: DiffLine[];
+}
+
+/** One row of a split view; either side is null where the other has no counterpart. */
+export interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const HUNK_RE = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/;
+
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let hunk: DiffHunk | null = null;
+  let oldNo = 0;
+  let newNo = 0;
+
+  // Drop the final newline so it doesn't read as an extra blank context line
+  for (const raw of diff.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n')) {
+    const header = HUNK_RE.exec(raw);
+    if (header) {
+      oldNo = parseInt(header[1], 10);
+      newNo = parseInt(header[2], 10);
+      hunk = { header: header[3].trim(), lines: [] };
+      hunks.push(hunk);
+      continue;
+    }
+    // File headers and anything before the first hunk carry no lines
+    if (!hunk || raw.startsWith('\\')) continue;
+
+    const marker = raw[0];
+    const text = raw.slice(1);
+    if (marker === '+') {
+      hunk.lines.push({ kind: 'add', text, oldNo: null, newNo: newNo++ });
+    } else if (marker === '-') {
+      hunk.lines.push({ kind: 'del', text, oldNo: oldNo++, newNo: null });
+    } else if (marker === ' ' || raw === '') {
+      // Some tools strip the leading space from blank context lines
+      hunk.lines.push({ kind: 'context', text, oldNo: oldNo++, newNo: newNo++ });
+    }
+  }
+
+  return hunks;
+}
+
+/** Pairs each run of deletions with the additions that follow it. */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.kind === 'context') {
+      rows.push({ left: line, right: line });
+      i++;
+      continue;
+    }
+    const dels: DiffLine[] = [];
+    const adds: DiffLine[] = [];
+    while (i < lines.length && lines[i].kind === 'del') dels.push(lines[i++]);
+    while (i < lines.length && lines[i].kind === 'add') adds.push(lines[i++]);
+    for (let j = 0; j < Math.max(dels.length, adds.length); j++) {
+      rows.push({ left: dels[j] ?? null, right: adds[j] ?? null });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,57 @@
+import type { ClientEnvironment } from '@/types';
+
+// Reads the reporter's browser and device so the agents can reproduce a
+// layout bug at the right size without asking. User-agent sniffing is only
+// good for a label; the raw string goes along too.
+
+function detectBrowser(ua: string): string {
+  const patterns: [string, RegExp][] = [
+    ['Edge', /Edg(?:e|A|iOS)?\/(\d+)/],
+    ['Opera', /OPR\/(\d+)/],
+    ['Samsung Internet', /SamsungBrowser\/(\d+)/],
+    ['Firefox', /(?:Firefox|FxiOS)\/(\d+)/],
+    ['Chrome', /(?:Chrome|CriOS)\/(\d+)/],
+    ['Safari', /Version\/(\d+)(?:\.\d+)*.*Safari/],
+  ];
+  for (const [name, re] of patterns) {
+    const m = re.exec(ua);
+    if (m) return `${name} ${m[1]}`;
+  }
+  return 'Unknown browser';
+}
+
+function detectOs(ua: string): string {
+  if (/iPhone|iPad|iPod/.test(ua)) return 'iOS';
+  if (/Android/.test(ua)) return 'Android';
+  if (/Windows/.test(ua)) return 'Windows';
+  if (/Mac OS X|Macintosh/.test(ua)) return 'macOS';
+  if (/CrOS/.test(ua)) return 'ChromeOS';
+  if (/Linux/.test(ua)) return 'Linux';
+  return 'Unknown OS';
+}
+
+function detectDevice(ua: string): ClientEnvironment['device'] {
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) return 'tablet';
+  if (/Mobi|iPhone|iPod/.test(ua)) return 'mobile';
+  return 'desktop';
+}
+
+export function captureEnvironment(): ClientEnvironment {
+  const ua = navigator.userAgent;
+  return {
+    user_agent: ua,
+    browser: detectBrowser(ua),
+    os: detectOs(ua),
+    device: detectDevice(ua),
+    viewport: `${window.innerWidth}×${window.innerHeight}`,
+    screen: `${window.screen.width}×${window.screen.height}`,
+    pixel_ratio: window.devicePixelRatio || 1,
+    language: navigator.language,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+}
+
+/** "Chrome 129 on macOS · 1440×900" */
+export function describeEnvironment(env: ClientEnvironment): string {
+  return `${env.browser} on ${env.os} · ${env.viewport}`;
+}
@@ -0,0 +1,92 @@
+// Reduces a HAR (HTTP Archive) export from the browser's network panel to
+// the few columns a reviewer scans for: what was requested, what came back,
+// how big and how slow.
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  /** 0 when the request never got a response (blocked, CORS, offline). */
+  status: number;
+  statusText: string;
+  mimeType: string;
+  /** Bytes over the wire, or the body size when the browser didn't record it. -1 if unknown. */
+  size: number;
+  /** Total time in milliseconds. */
+  time: number;
+  startedAt: number;
+}
+
+export interface HarSummary {
+  creator: string | null;
+  pages: number;
+  requests: HarRequest[];
+  failed: number;
+  totalBytes: number;
+  /** From the first request starting to the last one finishing, in milliseconds. */
+  duration: number;
+}
+
+interface RawEntry {
+  startedDateTime?: string;
+  time?: number;
+  request?: { method?: string; url?: string };
+  response?: {
+    status?: number;
+    statusText?: string;
+    bodySize?: number;
+    _transferSize?: number;
+    content?: { size?: number; mimeType?: string };
+  };
+}
+
+function num(n: unknown, fallback: number): number {
+  return typeof n === 'number' && isFinite(n) ? n : fallback;
+}
+
+export function isFailedRequest(r: HarRequest): boolean {
+  return r.status === 0 || r.status >= 400;
+}
+
+/** Throws if `text` isn't a HAR document. */
+export function summarizeHar(text: string): HarSummary {
+  const doc = JSON.parse(text) as {
+    log?: { creator?: { name?: string; version?: string }; pages?: unknown[]; entries?: RawEntry[] };
+  };
+  if (!doc?.log || !Array.isArray(doc.log.entries)) {
+    throw new Error('Not a HAR file');
+  }
+
+  const requests = doc.log.entries.map<HarRequest>((e) => {
+    const res = e.response ?? {};
+    const transfer = num(res._transferSize, -1);
+    const body = num(res.bodySize, -1);
+    return {
+      method: e.request?.method ?? 'GET',
+      url: e.request?.url ?? '',
+      status: num(res.status, 0),
+      statusText: res.statusText ?? '',
+      mimeType: (res.content?.mimeType ?? '').split(';')[0],
+      size: transfer >= 0 ? transfer : body >= 0 ? body : num(res.content?.size, -1),
+      time: Math.max(0, num(e.time, 0)),
+      startedAt: e.startedDateTime ? Date.parse(e.startedDateTime) || 0 : 0,
+    };
+  });
+
+  let start = Infinity;
+  let end = 0;
+  for (const r of requests) {
+    if (!r.startedAt) continue;
+    start = Math.min(start, r.startedAt);
+    end = Math.max(end, r.startedAt + r.time);
+  }
+
+  const creator = doc.log.creator?.name;
+  return {
+    creator: creator ? `${creator}${doc.log.creator?.version ? ` ${doc.log.creator.version}` : ''}` : null,
+    pages: Array.isArray(doc.log.pages) ? doc.log.pages.length : 0,
+    requests,
+    failed: requests.filter(isFailedRequest).length,
+    totalBytes: requests.reduce((sum, r) => sum + Math.max(0, r.size), 0),
+    duration: end > start ? end - start : 0,
+  };
+}
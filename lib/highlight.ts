@@ -0,0 +1,189 @@
+// Lightweight syntax highlighting for code blocks in agent messages. It only
+// tells comments, strings, numbers and keywords apart — enough to make a PHP
+// stack trace or a config diff readable without shipping a full grammar
+// library to every issue page.
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'tag';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface LangSpec {
+  keywords: string[];
+  lineComments: string[];
+  blockComment?: [string, string];
+  caseInsensitive?: boolean;
+}
+
+const JS_KEYWORDS = [
+  'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do',
+  'switch', 'case', 'break', 'continue', 'new', 'class', 'extends', 'import', 'export',
+  'from', 'default', 'async', 'await', 'try', 'catch', 'finally', 'throw', 'typeof',
+  'instanceof', 'in', 'of', 'this', 'null', 'undefined', 'true', 'false', 'interface',
+  'type', 'enum', 'implements', 'public', 'private', 'protected', 'readonly', 'static',
+];
+
+const PHP_KEYWORDS = [
+  'function', 'return', 'if', 'else', 'elseif', 'foreach', 'for', 'while', 'as', 'echo',
+  'class', 'extends', 'implements', 'public', 'private', 'protected', 'static', 'new',
+  'null', 'true', 'false', 'array', 'isset', 'empty', 'require', 'require_once',
+  'include', 'include_once', 'use', 'namespace', 'try', 'catch', 'throw', 'const',
+  'global', 'switch', 'case', 'break', 'continue', 'default', 'fn', 'match',
+];
+
+const PYTHON_KEYWORDS = [
+  'def', 'return', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or',
+  'import', 'from', 'as', 'class', 'try', 'except', 'finally', 'raise', 'with',
+  'lambda', 'yield', 'None', 'True', 'False', 'pass', 'break', 'continue', 'async',
+  'await', 'is', 'global',
+];
+
+const SHELL_KEYWORDS = [
+  'if', 'then', 'else', 'elif', 'fi', 'for', 'in', 'do', 'done', 'while', 'case',
+  'esac', 'function', 'return', 'export', 'local', 'sudo', 'cd', 'echo',
+];
+
+const SQL_KEYWORDS = [
+  'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update',
+  'set', 'delete', 'join', 'left', 'right', 'inner', 'outer', 'on', 'as', 'group',
+  'by', 'order', 'limit', 'create', 'table', 'alter', 'drop', 'index', 'null', 'is',
+  'in', 'like', 'having', 'distinct', 'count',
+];
+
+const CSS_KEYWORDS = ['important', 'media', 'import', 'px', 'em', 'rem', 'vh', 'vw'];
+
+// Severity words in PHP, Apache, nginx and WordPress debug logs
+const LOG_KEYWORDS = [
+  'emerg', 'alert', 'crit', 'critical', 'error', 'err', 'warn', 'warning', 'notice',
+  'info', 'debug', 'fatal', 'deprecated', 'parse', 'exception', 'stack', 'trace',
+];
+
+const LANGS: Record<string, LangSpec> = {
+  js: { keywords: JS_KEYWORDS, lineComments: ['//'], blockComment: ['/*', '*/'] },
+  php: { keywords: PHP_KEYWORDS, lineComments: ['//', '#'], blockComment: ['/*', '*/'] },
+  python: { keywords: PYTHON_KEYWORDS, lineComments: ['#'] },
+  shell: { keywords: SHELL_KEYWORDS, lineComments: ['#'] },
+  sql: { keywords: SQL_KEYWORDS, lineComments: ['--'], blockComment: ['/*', '*/'], caseInsensitive: true },
+  css: { keywords: CSS_KEYWORDS, lineComments: [], blockComment: ['/*', '*/'] },
+  json: { keywords: ['true', 'false', 'null'], lineComments: [] },
+  yaml: { keywords: ['true', 'false', 'null', 'yes', 'no'], lineComments: ['#'] },
+  log: { keywords: LOG_KEYWORDS, lineComments: [], caseInsensitive: true },
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', tsx: 'js', typescript: 'js', mjs: 'js',
+  py: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shellsession: 'shell',
+  mysql: 'sql', postgres: 'sql', postgresql: 'sql',
+  scss: 'css', less: 'css',
+  yml: 'yaml',
+  html: 'markup', xml: 'markup', svg: 'markup', htm: 'markup',
+};
+
+const EXTENSION_LANGS: Record<string, string> = {
+  php: 'php', phtml: 'php', inc: 'php',
+  js: 'js', mjs: 'js', cjs: 'js', jsx: 'js', ts: 'js', tsx: 'js',
+  css: 'css', scss: 'css', less: 'css',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup',
+  json: 'json', yml: 'yaml', yaml: 'yaml',
+  sql: 'sql', sh: 'shell', py: 'python',
+  htaccess: 'shell', conf: 'shell', ini: 'shell', env: 'shell',
+  log: 'log',
+};
+
+// Files conventionally named without a telling extension
+const FILENAME_LANGS: Record<string, string> = {
+  error_log: 'log',
+  php_errorlog: 'log',
+};
+
+/** Best-guess language for a file path, or '' when there is nothing to highlight. */
+export function languageForPath(path: string): string {
+  const name = path.split('/').pop() ?? '';
+  const known = FILENAME_LANGS[name.toLowerCase()];
+  if (known) return known;
+  const ext = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return EXTENSION_LANGS[ext] ?? '';
+}
+
+function escapeRe(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Capture groups: 1 block comment, 2 line comment, 3 string, 4 number,
+// 5 word. A language without a comment style gets a never-matching group
+// so the numbering stays the same.
+const NEVER = '(\\b\\B)';
+
+function patternFor(spec: LangSpec): RegExp {
+  const parts: string[] = [];
+  if (spec.blockComment) {
+    const [open, close] = spec.blockComment.map(escapeRe);
+    parts.push(`(${open}[\\s\\S]*?(?:${close}|$))`);
+  } else {
+    parts.push(NEVER);
+  }
+  parts.push(
+    spec.lineComments.length > 0
+      ? `((?:${spec.lineComments.map(escapeRe).join('|')})[^\\n]*)`
+      : NEVER
+  );
+  parts.push('("(?:[^"\\\\\\n]|\\\\.)*"?|\'(?:[^\'\\\\\\n]|\\\\.)*\'?|`(?:[^`\\\\]|\\\\.)*`?)');
+  parts.push('(\\b\\d+(?:\\.\\d+)?\\b)');
+  parts.push('([A-Za-z_$][\\w$]*)');
+  return new RegExp(parts.join('|'), 'g');
+}
+
+function highlightMarkup(code: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /(<!--[\s\S]*?(?:-->|$))|(<\/?[\w:-]+|\/?>)|("[^"]*"|'[^']*')/g;
+  let pos = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(code))) {
+    if (m.index > pos) tokens.push({ kind: 'plain', text: code.slice(pos, m.index) });
+    tokens.push({ kind: m[1] ? 'comment' : m[2] ? 'tag' : 'string', text: m[0] });
+    pos = m.index + m[0].length;
+  }
+  if (pos < code.length) tokens.push({ kind: 'plain', text: code.slice(pos) });
+  return tokens;
+}
+
+/** Splits `code` into coloured tokens; unknown languages come back as one plain token. */
+export function highlight(code: string, lang: string): Token[] {
+  const key = ALIASES[lang] ?? lang;
+  if (key === 'markup') return highlightMarkup(code);
+  const spec = LANGS[key];
+  if (!spec) return [{ kind: 'plain', text: code }];
+
+  const keywords = new Set(spec.keywords);
+  const re = patternFor(spec);
+  const tokens: Token[] = [];
+  let pos = 0;
+  let m: RegExpExecArray | null;
+
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  while ((m = re.exec(code))) {
+    if (m[0] === '') {
+      re.lastIndex++;
+      continue;
+    }
+    if (m.index > pos) push('plain', code.slice(pos, m.index));
+    if (m[1] || m[2]) push('comment', m[0]);
+    else if (m[3]) push('string', m[0]);
+    else if (m[4]) push('number', m[0]);
+    else {
+      const word = spec.caseInsensitive ? m[0].toLowerCase() : m[0];
+      push(keywords.has(word) ? 'keyword' : 'plain', m[0]);
+    }
+    pos = m.index + m[0].length;
+  }
+  if (pos < code.length) push('plain', code.slice(pos));
+  return tokens;
+}
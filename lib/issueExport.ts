@@ -0,0 +1,196 @@
+import sdk from './sdk';
+import { runBulk } from './bulk';
+import { KANBAN_COLUMN_ORDER } from './issueFilters';
+import { KANBAN_LABELS } from '@/components/KanbanBadge';
+import type { Issue, IssueListParams, KanbanColumn, TicketTransition } from '@/types';
+
+// Turns issues into files people can open in a spreadsheet, and hands files
+// built in the browser to the user as downloads.
+
+const EXPORT_PAGE_SIZE = 100;
+
+// A ticket stays in these for good, so time spent there says nothing
+const CLOSED_COLUMNS: KanbanColumn[] = ['done', 'dismissed'];
+const TIMED_COLUMNS = KANBAN_COLUMN_ORDER.filter((c) => !CLOSED_COLUMNS.includes(c));
+
+function ticketNumber(issue: Issue): string {
+  return issue.ticket_number ? `TKT-${String(issue.ticket_number).padStart(3, '0')}` : '';
+}
+
+/**
+ * Quotes a CSV field when it needs it (RFC 4180). Text a spreadsheet would
+ * run as a formula gets a leading `'` (OWASP's CSV injection advice).
+ */
+function csvField(value: string | number | null | undefined): string {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function hours(ms: number | undefined): number | null {
+  return ms === undefined ? null : Math.round(ms / 360_000) / 10;
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n');
+}
+
+/**
+ * Milliseconds the issue spent in each open column, from its moves. Time
+ * before the first recorded move counts towards the column it left, and the
+ * column it's in now counts up to `now`; an issue that never moved has spent
+ * its whole life in its current column.
+ */
+export function stageDurations(
+  issue: Issue,
+  transitions: TicketTransition[],
+  now = Date.now(),
+): Partial<Record<KanbanColumn, number>> {
+  const sorted = [...transitions].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const durations: Partial<Record<KanbanColumn, number>> = {};
+  const add = (col: KanbanColumn | null, from: number, to: number) => {
+    if (!col || CLOSED_COLUMNS.includes(col) || to <= from) return;
+    durations[col] = (durations[col] ?? 0) + (to - from);
+  };
+
+  const created = new Date(issue.created_at).getTime();
+  const first = sorted[0];
+  if (first) add(first.from_col, created, new Date(first.created_at).getTime());
+  else add(issue.kanban_column ?? 'triage', created, now);
+  sorted.forEach((t, idx) => {
+    const next = sorted[idx + 1];
+    add(t.to_col, new Date(t.created_at).getTime(), next ? new Date(next.created_at).getTime() : now);
+  });
+  return durations;
+}
+
+/**
+ * Pass `transitions` (by issue id) to add an hours-per-column field for
+ * each open column; issues missing from it leave those fields blank.
+ */
+export function issuesCsv(
+  issues: Issue[],
+  siteNames: Record<string, string>,
+  transitions?: Record<string, TicketTransition[]>,
+): string {
+  const header = [
+    'Ticket', 'Site', 'Title', 'Priority', 'Status', 'Column',
+    'Created', 'Resolved', 'Dev failures', 'Confidence',
+    ...(transitions ? TIMED_COLUMNS.map((c) => `Hours in ${KANBAN_LABELS[c]}`) : []),
+  ];
+  return toCsv([
+    header,
+    ...issues.map((i) => {
+      const history = transitions?.[i.id];
+      const durations = history ? stageDurations(i, history) : null;
+      return [
+        ticketNumber(i),
+        siteNames[i.site_id] ?? i.site_id,
+        i.title,
+        i.priority,
+        i.status,
+        i.kanban_column ?? 'triage',
+        i.created_at,
+        i.resolved_at,
+        i.dev_fail_count,
+        i.confidence_score,
+        ...(transitions ? TIMED_COLUMNS.map((c) => (durations ? hours(durations[c]) ?? 0 : null)) : []),
+      ];
+    }),
+  ]);
+}
+
+/** The same fields as `issuesCsv`, plus every move each issue made. */
+export function issuesJson(
+  issues: Issue[],
+  siteNames: Record<string, string>,
+  transitions: Record<string, TicketTransition[]>,
+): string {
+  return JSON.stringify(
+    issues.map((i) => {
+      const history = transitions[i.id];
+      const durations = history ? stageDurations(i, history) : null;
+      return {
+        ticket: ticketNumber(i) || null,
+        id: i.id,
+        site_id: i.site_id,
+        site: siteNames[i.site_id] ?? null,
+        title: i.title,
+        priority: i.priority,
+        status: i.status,
+        kanban_column: i.kanban_column ?? 'triage',
+        created_at: i.created_at,
+        resolved_at: i.resolved_at,
+        dev_fail_count: i.dev_fail_count,
+        confidence_score: i.confidence_score,
+        hours_in_column: durations
+          ? Object.fromEntries(TIMED_COLUMNS.map((c) => [c, hours(durations[c]) ?? 0]))
+          : null,
+        transitions: history?.map((t) => ({
+          from_col: t.from_col,
+          to_col: t.to_col,
+          actor_type: t.actor_type,
+          note: t.note,
+          created_at: t.created_at,
+        })) ?? null,
+      };
+    }),
+    null,
+    2,
+  );
+}
+
+export interface IssueExport {
+  issues: Issue[];
+  transitions: Record<string, TicketTransition[]>;
+  /** Issues whose history didn't load; exported without it. */
+  missingHistory: Issue[];
+}
+
+/** Every issue matching `params`, page after page. */
+export async function fetchAllIssues(params: IssueListParams): Promise<Issue[]> {
+  const issues: Issue[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await sdk.issues.listPage({ ...params, limit: EXPORT_PAGE_SIZE, cursor });
+    issues.push(...page.items);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return issues;
+}
+
+/** Every issue matching `params`, not just the loaded pages, with its moves. */
+export async function fetchIssueExport(
+  params: IssueListParams,
+  onProgress?: (loaded: number, total: number) => void,
+): Promise<IssueExport> {
+  const issues = await fetchAllIssues(params);
+
+  let loaded = 0;
+  onProgress?.(0, issues.length);
+  const outcome = await runBulk(issues, async (issue) => {
+    const history = await sdk.issues.listTransitions(issue.id);
+    onProgress?.(++loaded, issues.length);
+    return history;
+  });
+  return {
+    issues,
+    transitions: Object.fromEntries(outcome.succeeded.map(({ item, result }) => [item.id, result])),
+    missingHistory: outcome.failed.map((f) => f.item),
+  };
+}
+
+export function downloadFile(filename: string, contents: string, type: string): void {
+  // A BOM so Excel reads CSV as UTF-8 rather than the system code page
+  const blob = new Blob([type === 'text/csv' ? '\uFEFF' : '', contents], { type: `${type};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
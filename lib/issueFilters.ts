@@ -0,0 +1,252 @@
+import type { Issue, IssueListParams, KanbanColumn, SavedView } from '@/types';
+
+// The issues page keeps its filters and display settings in the query
+// string, so any view can be bookmarked or shared and back/forward steps
+// through changes. The URL is the only copy: the page parses it on every
+// render and writes a new one to change anything. Saved views store the
+// same query string.
+
+export type AgentRoleFilter = 'pm' | 'dev' | 'qa';
+
+export interface IssueFilters {
+  site: string;
+  priority: Issue['priority'] | '';
+  status: Issue['status'] | '';
+  column: KanbanColumn | '';
+  agent: AgentRoleFilter | '';
+  /** Created on or after, YYYY-MM-DD. */
+  from: string;
+  /** Created on or before, YYYY-MM-DD. */
+  to: string;
+  q: string;
+}
+
+export const EMPTY_FILTERS: IssueFilters = {
+  site: '', priority: '', status: '', column: '', agent: '', from: '', to: '', q: '',
+};
+
+export type IssueLayout = 'kanban' | 'list';
+export type IssueSort = 'newest' | 'oldest' | 'priority';
+export type IssueGrouping = 'none' | 'site' | 'priority' | 'agent';
+
+/** Everything that shapes the issues page: which issues, and how they're shown. */
+export interface IssueViewConfig extends IssueFilters {
+  layout: IssueLayout;
+  sort: IssueSort;
+  group: IssueGrouping;
+  /** Board columns the user has hidden. */
+  hidden: KanbanColumn[];
+}
+
+export const DEFAULT_VIEW: IssueViewConfig = {
+  ...EMPTY_FILTERS, layout: 'kanban', sort: 'newest', group: 'none', hidden: [],
+};
+
+export const SORT_LABELS: Record<IssueSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  priority: 'Priority',
+};
+
+export const GROUPING_LABELS: Record<IssueGrouping, string> = {
+  none: 'No grouping',
+  site: 'Site',
+  priority: 'Priority',
+  agent: 'Assigned agent',
+};
+
+export const PRIORITY_OPTIONS: Issue['priority'][] = ['critical', 'high', 'medium', 'low'];
+
+export const STATUS_LABELS: Record<Issue['status'], string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  pending_approval: 'Pending approval',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+// Filtering and swimlanes both go by the ticket's assigned agent, wherever
+// it sits on the board
+export const AGENT_ROLES: AgentRoleFilter[] = ['pm', 'dev', 'qa'];
+
+export const AGENT_FILTER_LABELS: Record<AgentRoleFilter, string> = {
+  pm: 'PM Agent',
+  dev: 'Dev Agent',
+  qa: 'QA Agent',
+};
+
+export const KANBAN_COLUMN_ORDER: KanbanColumn[] = [
+  'triage', 'ready_for_uat_approval', 'todo', 'in_progress',
+  'ready_for_qa', 'in_qa', 'ready_for_uat', 'done', 'dismissed',
+];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]): T | '' {
+  return value && (allowed as readonly string[]).includes(value) ? (value as T) : '';
+}
+
+function dateParam(value: string | null): string {
+  return value && DATE_RE.test(value) ? value : '';
+}
+
+/** Unknown or malformed values are dropped rather than matching nothing. */
+export function parseIssueFilters(params: URLSearchParams): IssueFilters {
+  return {
+    // Older links to this page used `site_id`
+    site: params.get('site') ?? params.get('site_id') ?? '',
+    priority: oneOf(params.get('priority'), PRIORITY_OPTIONS),
+    status: oneOf(params.get('status'), Object.keys(STATUS_LABELS) as Issue['status'][]),
+    column: oneOf(params.get('column'), KANBAN_COLUMN_ORDER),
+    agent: oneOf(params.get('agent'), AGENT_ROLES),
+    from: dateParam(params.get('from')),
+    to: dateParam(params.get('to')),
+    q: params.get('q') ?? '',
+  };
+}
+
+export function parseIssueView(params: URLSearchParams): IssueViewConfig {
+  const hidden = (params.get('hide') ?? '').split(',');
+  return {
+    ...parseIssueFilters(params),
+    layout: params.get('view') === 'list' ? 'list' : 'kanban',
+    sort: oneOf(params.get('sort'), Object.keys(SORT_LABELS) as IssueSort[]) || 'newest',
+    group: oneOf(params.get('group'), Object.keys(GROUPING_LABELS) as IssueGrouping[]) || 'none',
+    hidden: KANBAN_COLUMN_ORDER.filter((col) => hidden.includes(col)),
+  };
+}
+
+export function savedViewConfig(saved: SavedView): IssueViewConfig {
+  return parseIssueView(new URLSearchParams(saved.query));
+}
+
+/**
+ * Query string for a view, without the leading "?". Empty filters and
+ * default settings are left out and the order is fixed, so two equal views
+ * always give the same string.
+ */
+export function issueViewQuery(view: Partial<IssueViewConfig>): string {
+  const params = new URLSearchParams();
+  (Object.keys(EMPTY_FILTERS) as (keyof IssueFilters)[]).forEach((key) => {
+    const value = view[key]?.trim();
+    if (value) params.set(key, value);
+  });
+  if (view.layout === 'list') params.set('view', 'list');
+  if (view.sort && view.sort !== DEFAULT_VIEW.sort) params.set('sort', view.sort);
+  if (view.group && view.group !== DEFAULT_VIEW.group) params.set('group', view.group);
+  const hidden = KANBAN_COLUMN_ORDER.filter((col) => view.hidden?.includes(col));
+  if (hidden.length > 0) params.set('hide', hidden.join(','));
+  return params.toString();
+}
+
+/** Link to the issues page showing the given view; omitted fields take their defaults. */
+export function issuesHref(view: Partial<IssueViewConfig> = {}): string {
+  const query = issueViewQuery(view);
+  return query ? `/issues?${query}` : '/issues';
+}
+
+export function activeFilterCount(filters: IssueFilters): number {
+  return (Object.keys(EMPTY_FILTERS) as (keyof IssueFilters)[]).filter((key) => filters[key].trim() !== '').length;
+}
+
+/** The board columns a view shows: not hidden, and able to hold a match. */
+export function visibleBoardColumns(view: IssueViewConfig): KanbanColumn[] {
+  // Dismissed issues only ever show in the list
+  return KANBAN_COLUMN_ORDER.filter((col) =>
+    col !== 'dismissed' &&
+    !view.hidden.includes(col) &&
+    (!view.column || view.column === col));
+}
+
+/** The filters as API query parameters, for server-side filtering. */
+export function issueListParams(filters: IssueFilters): IssueListParams {
+  const params: IssueListParams = {};
+  if (filters.site) params.site_id = filters.site;
+  if (filters.priority) params.priority = filters.priority;
+  if (filters.status) params.status = filters.status;
+  if (filters.column) params.kanban_column = filters.column;
+  if (filters.agent) params.agent_role = filters.agent;
+  // Whole days in the viewer's timezone, as matchesIssueFilters compares them
+  if (filters.from) params.created_after = new Date(`${filters.from}T00:00:00`).toISOString();
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.created_before = end.toISOString();
+  }
+  if (filters.q.trim()) params.q = filters.q.trim();
+  return params;
+}
+
+function localDay(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * The API's filtering repeated client-side, for issues that arrive over the
+ * realtime channel rather than in a page the server already filtered.
+ */
+export function matchesIssueFilters(issue: Issue, filters: IssueFilters): boolean {
+  const col = issue.kanban_column ?? 'triage';
+  if (filters.site && issue.site_id !== filters.site) return false;
+  if (filters.priority && issue.priority !== filters.priority) return false;
+  if (filters.status && issue.status !== filters.status) return false;
+  if (filters.column && col !== filters.column) return false;
+  if (filters.agent && issue.assigned_agent_role !== filters.agent) return false;
+  if (filters.from || filters.to) {
+    // Compared as calendar days in the viewer's timezone, both ends inclusive
+    const day = localDay(issue.created_at);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+  }
+  const q = filters.q.trim().toLowerCase();
+  if (q) {
+    const ticket = issue.ticket_number ? `tkt-${String(issue.ticket_number).padStart(3, '0')}` : '';
+    const haystack = `${ticket} ${issue.title} ${issue.description}`.toLowerCase();
+    if (!q.split(/\s+/).every((word) => haystack.includes(word))) return false;
+  }
+  return true;
+}
+
+export interface IssueGroup {
+  key: string;
+  label: string;
+  issues: Issue[];
+}
+
+const NO_AGENT = 'none';
+
+/**
+ * Splits issues into the view's groups, keeping their order within each.
+ * Priorities and agents come in their usual order, sites by name; groups
+ * with no issues are left out. With no grouping it's one group of all.
+ */
+export function groupIssues(issues: Issue[], group: IssueGrouping, siteNames: Record<string, string>): IssueGroup[] {
+  if (group === 'none') return [{ key: 'all', label: '', issues }];
+
+  const byKey = new Map<string, Issue[]>();
+  issues.forEach((issue) => {
+    const key =
+      group === 'site' ? issue.site_id :
+      group === 'priority' ? issue.priority :
+      issue.assigned_agent_role ?? NO_AGENT;
+    const members = byKey.get(key);
+    if (members) members.push(issue);
+    else byKey.set(key, [issue]);
+  });
+
+  const label = (key: string) =>
+    group === 'site' ? siteNames[key] ?? 'Unknown site' :
+    group === 'priority' ? key.charAt(0).toUpperCase() + key.slice(1) :
+    key === NO_AGENT ? 'Unassigned' : AGENT_FILTER_LABELS[key as AgentRoleFilter];
+
+  const order =
+    group === 'priority' ? (PRIORITY_OPTIONS as string[]) :
+    group === 'agent' ? [...AGENT_ROLES, NO_AGENT] :
+    Array.from(byKey.keys()).sort((a, b) => label(a).localeCompare(label(b)));
+
+  return order
+    .filter((key) => byKey.has(key))
+    .map((key) => ({ key, label: label(key), issues: byKey.get(key) ?? [] }));
+}
@@ -0,0 +1,76 @@
+// Minimal HS256 JWT verification on Web Crypto, so it runs in the edge
+// runtime (middleware) as well as in the browser.
+
+export interface JwtClaims {
+  sub?: string;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+function base64UrlDecode(input: string) {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the token's claims if it is well-formed, unexpired and carries a
+ * valid HS256 signature. Returns null otherwise.
+ *
+ * Without a secret nothing verifies, unless `allowUnsigned` is set; then only
+ * structure and expiry are checked. That is for local development, where
+ * `JWT_SECRET` is usually not configured, and never applies in production.
+ */
+export async function verifyJwt(
+  token: string,
+  secret: string | undefined,
+  { allowUnsigned = false } = {},
+): Promise<JwtClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [headerB64, payloadB64, signatureB64] = parts;
+
+  const header = decodeSegment<{ alg?: string }>(headerB64);
+  const claims = decodeSegment<JwtClaims>(payloadB64);
+  if (!header || !claims) return null;
+
+  if (!secret) {
+    if (!allowUnsigned || process.env.NODE_ENV === 'production') return null;
+  } else {
+    if (header.alg !== 'HS256') return null;
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    let signature: ReturnType<typeof base64UrlDecode>;
+    try {
+      signature = base64UrlDecode(signatureB64);
+    } catch {
+      return null;
+    }
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      signature,
+      encoder.encode(`${headerB64}.${payloadB64}`)
+    );
+    if (!valid) return null;
+  }
+
+  if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) return null;
+  return claims;
+}
@@ -0,0 +1,242 @@
+// A deliberately small Markdown subset for agent chat messages: headings,
+// paragraphs, lists, block quotes, rules, fenced code, inline code, bold,
+// italics, links, bare URLs and file paths.
+//
+// It parses to a tree that components/Markdown.tsx renders as React
+// elements. Raw HTML is never interpreted — it comes through as text — and
+// links are limited to http(s) and mailto, so there is nothing to sanitize
+// after the fact.
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MdInline[] }
+  | { type: 'em'; children: MdInline[] }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'path'; path: string };
+
+export type MdBlock =
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: MdInline[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MdInline[][] }
+  | { type: 'quote'; children: MdBlock[] }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/** Returns `url` if it is an absolute http(s)/mailto URL, null otherwise. */
+export function safeHref(url: string): string | null {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(url).protocol) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// ── Inline ────────────────────────────────────────────────────────────────
+
+// Alternatives, in priority order:
+//   1 code span   3 **strong**   4 *em*   5 _em_   6-7 [text](href)
+//   8 bare URL    9 file path (at least one slash and an extension,
+//                   optionally followed by :line or :line:col)
+// An href may hold one level of parentheses, e.g. a Wikipedia URL, so an
+// unsafe one like javascript:alert(1) is dropped whole.
+const INLINE_RE = new RegExp(
+  [
+    '(`+)([^`]|[^`][\\s\\S]*?[^`])\\1(?!`)',
+    '\\*\\*([^\\s*][\\s\\S]*?)\\*\\*',
+    '\\*([^\\s*][^*]*?)\\*',
+    '_([^\\s_][^_]*?)_',
+    '\\[([^\\]\\n]+)\\]\\(((?:[^()\\s]|\\([^()\\s]*\\))+)\\)',
+    '(https?:\\/\\/[^\\s<>"\'`]+)',
+    '((?:~|\\.{1,2})?\\/?(?:[\\w@.-]+\\/)+[\\w@.-]*\\.[A-Za-z][A-Za-z0-9]{0,7}(?::\\d+){0,2})',
+  ].join('|'),
+  'g'
+);
+
+// Runs without whitespace longer than this (pasted logs, base64) are left as
+// plain text: matching paths inside them costs time quadratic in their length
+const LONG_RUN_RE = /\S{500,}/g;
+
+const WORD_CHAR = /[\w]/;
+const URL_TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+
+function pushText(out: MdInline[], text: string) {
+  if (!text) return;
+  const last = out[out.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else out.push({ type: 'text', text });
+}
+
+// Parses `src` onto the end of `out`
+function parseSpan(src: string, out: MdInline[]) {
+  const re = new RegExp(INLINE_RE.source, 'g');
+  let pos = 0;
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(src))) {
+    const start = m.index;
+    const before = start > 0 ? src[start - 1] : '';
+    let token: MdInline | null = null;
+    let end = start + m[0].length;
+
+    if (m[1] !== undefined) {
+      token = { type: 'code', text: m[2].trim() ? m[2].replace(/^ (.*) $/, '$1') : m[2] };
+    } else if (m[3] !== undefined) {
+      token = { type: 'strong', children: parseInline(m[3]) };
+    } else if (m[4] !== undefined) {
+      token = { type: 'em', children: parseInline(m[4]) };
+    } else if (m[5] !== undefined) {
+      // snake_case_words are not emphasis
+      const after = src[end] ?? '';
+      if (!WORD_CHAR.test(before) && !WORD_CHAR.test(after)) {
+        token = { type: 'em', children: parseInline(m[5]) };
+      }
+    } else if (m[6] !== undefined) {
+      const href = safeHref(m[7]);
+      token = href
+        ? { type: 'link', href, children: parseInline(m[6]) }
+        : { type: 'text', text: m[6] };
+    } else if (m[8] !== undefined) {
+      // "see https://example.com." — the full stop isn't part of the URL
+      const url = m[8].replace(URL_TRAILING_PUNCTUATION, '');
+      end = start + url.length;
+      const href = safeHref(url);
+      if (href) token = { type: 'link', href, children: [{ type: 'text', text: url }] };
+    } else if (m[9] !== undefined) {
+      if (!before || !/[\w/:]/.test(before)) token = { type: 'path', path: m[9] };
+    }
+
+    if (!token) {
+      // Not a real match here; step one character and keep scanning
+      re.lastIndex = start + 1;
+      continue;
+    }
+
+    pushText(out, src.slice(pos, start));
+    if (token.type === 'text') pushText(out, token.text);
+    else out.push(token);
+    pos = end;
+    re.lastIndex = end;
+  }
+
+  pushText(out, src.slice(pos));
+}
+
+export function parseInline(src: string): MdInline[] {
+  const out: MdInline[] = [];
+  let pos = 0;
+  let m: RegExpExecArray | null;
+  const long = new RegExp(LONG_RUN_RE.source, 'g');
+  while ((m = long.exec(src))) {
+    parseSpan(src.slice(pos, m.index), out);
+    pushText(out, m[0]);
+    pos = m.index + m[0].length;
+  }
+  parseSpan(src.slice(pos), out);
+  return out;
+}
+
+// ── Blocks ────────────────────────────────────────────────────────────────
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM_RE = /^\s{0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE_RE.test(line) ||
+    HEADING_RE.test(line) ||
+    RULE_RE.test(line) ||
+    QUOTE_RE.test(line) ||
+    LIST_ITEM_RE.test(line)
+  );
+}
+
+export function parseMarkdown(src: string): MdBlock[] {
+  const lines = src.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      let q: RegExpExecArray | null;
+      while (i < lines.length && (q = QUOTE_RE.exec(lines[i]))) {
+        body.push(q[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(body.join('\n')) });
+      continue;
+    }
+
+    const first = LIST_ITEM_RE.exec(line);
+    if (first) {
+      const ordered = /\d/.test(first[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM_RE.exec(lines[i]);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (lines[i].trim() && /^\s/.test(lines[i]) && items.length > 0) {
+          // Indented continuation (or nested item) — fold into the current one
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(first[1], 10) : 1,
+        items: items.map(parseInline),
+      });
+      continue;
+    }
+
+    const para: string[] = [];
+    while (i < lines.length && lines[i].trim() && !(para.length > 0 && isBlockStart(lines[i]))) {
+      para.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(para.join('\n')) });
+  }
+
+  return blocks;
+}
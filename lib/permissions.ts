@@ -0,0 +1,74 @@
+import type { Role } from '@/types';
+
+// Client-side mirror of the backend's role model. The API enforces every
+// permission on its own; this only decides what to show and where to route,
+// so a tampered client gains nothing but a few extra buttons that 403.
+
+export type Permission =
+  | 'admin.access'
+  | 'admin.users.view'
+  | 'admin.users.manage'
+  | 'admin.sites.view'
+  | 'admin.sites.manage'
+  | 'admin.issues.view'
+  | 'admin.issues.transition'
+  | 'admin.agents.view'
+  | 'admin.agents.manage'
+  | 'admin.templates.view'
+  | 'admin.templates.manage';
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: [
+    'admin.access',
+    'admin.users.view',
+    'admin.users.manage',
+    'admin.sites.view',
+    'admin.sites.manage',
+    'admin.issues.view',
+    'admin.issues.transition',
+    'admin.agents.view',
+    'admin.agents.manage',
+    'admin.templates.view',
+    'admin.templates.manage',
+  ],
+  support: [
+    'admin.access',
+    'admin.users.view',
+    'admin.sites.view',
+    'admin.issues.view',
+    'admin.issues.transition',
+    'admin.templates.view',
+  ],
+  billing: ['admin.access', 'admin.users.view', 'admin.users.manage'],
+  customer: [],
+};
+
+// Most specific prefix first — the first match wins.
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/admin/users', permission: 'admin.users.view' },
+  { prefix: '/admin/sites', permission: 'admin.sites.view' },
+  { prefix: '/admin/issues', permission: 'admin.issues.view' },
+  { prefix: '/admin/agents', permission: 'admin.agents.view' },
+  { prefix: '/admin/templates', permission: 'admin.templates.view' },
+  { prefix: '/admin', permission: 'admin.access' },
+];
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+/** Narrows an untrusted value (e.g. a JWT claim) to the roles we know. */
+export function parseRoles(value: unknown): Role[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((r): r is Role => ROLES.includes(r as Role));
+}
+
+export function hasPermission(roles: readonly Role[], permission: Permission): boolean {
+  return roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/** The permission needed to open `pathname`, or null for routes any signed-in user may see. */
+export function routePermission(pathname: string): Permission | null {
+  const match = ROUTE_PERMISSIONS.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return match?.permission ?? null;
+}
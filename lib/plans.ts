@@ -0,0 +1,9 @@
+// Subscription plans, in ascending order.
+export const PLAN_OPTIONS = ['free', 'starter', 'pro', 'enterprise'];
+
+export const PLAN_COLORS: Record<string, string> = {
+  free: 'text-slate-400 bg-slate-700',
+  starter: 'text-blue-400 bg-blue-900/30',
+  pro: 'text-purple-400 bg-purple-900/30',
+  enterprise: 'text-amber-400 bg-amber-900/30',
+};
@@ -0,0 +1,216 @@
+import { refreshAccessToken } from './api';
+import { getAccessToken } from './session';
+import type { WsEvent } from '@/types';
+
+// One WebSocket per tab, multiplexing every live view over named channels.
+//
+// Protocol (JSON frames):
+//   → { type: 'auth', token }                       first frame after open
+//   → { type: 'subscribe', channel, last_event_id? } server replays anything
+//                                                     after last_event_id
+//   → { type: 'unsubscribe', channel }
+//   ← { type: 'auth_ok' }                            token accepted
+//   ← { type, channel, event_id, ...payload }        channel events
+//
+// The token travels in the first frame rather than the URL so it never ends
+// up in proxy or server access logs.
+
+export type RealtimeChannel =
+  | `issue:${string}`
+  | `site:${string}`
+  | 'board'
+  | 'admin';
+
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export type RealtimeHandler = (event: WsEvent) => void;
+
+export interface RealtimeClient {
+  subscribe(channel: RealtimeChannel, handler: RealtimeHandler): () => void;
+  onStateChange(listener: (state: ConnectionState) => void): () => void;
+  getState(): ConnectionState;
+  /** Drops the socket now; a later subscribe() opens a new one. */
+  close(): void;
+}
+
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 30_000;
+// Keep the socket around briefly after the last unsubscribe so client-side
+// navigation between live pages doesn't drop and re-open it.
+const IDLE_CLOSE_MS = 5_000;
+// Close codes the backend uses to reject the auth frame.
+const AUTH_REJECTED_CODES = [4001, 4401];
+
+function realtimeUrl(): string {
+  const apiBase = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:5000';
+  return `${apiBase.replace(/^http/, 'ws')}/ws`;
+}
+
+/** Full-jitter exponential backoff: uniform in [0, min(max, base * 2^attempt)]. */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+export function createRealtimeClient(): RealtimeClient {
+  const handlers = new Map<RealtimeChannel, Set<RealtimeHandler>>();
+  const lastEventIds = new Map<RealtimeChannel, string>();
+  const stateListeners = new Set<(state: ConnectionState) => void>();
+
+  let socket: WebSocket | null = null;
+  let state: ConnectionState = 'idle';
+  let attempt = 0;
+  // Set when the server turned the token down; the next backoff step
+  // renews it before reconnecting.
+  let needsRefresh = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function setState(next: ConnectionState) {
+    if (state === next) return;
+    state = next;
+    stateListeners.forEach((listener) => listener(next));
+  }
+
+  function send(frame: Record<string, unknown>) {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+  }
+
+  function sendSubscribe(channel: RealtimeChannel) {
+    send({ type: 'subscribe', channel, last_event_id: lastEventIds.get(channel) });
+  }
+
+  function dispatch(event: WsEvent) {
+    const channel = event.channel as RealtimeChannel | undefined;
+    if (!channel) return;
+    if (event.event_id != null) lastEventIds.set(channel, String(event.event_id));
+    handlers.get(channel)?.forEach((handler) => handler(event));
+  }
+
+  function connect() {
+    if (socket || handlers.size === 0) return;
+    const token = getAccessToken();
+    if (!token) {
+      // Signed out, or the access token was dropped mid-refresh — renew it
+      // on the next backoff step.
+      needsRefresh = true;
+      scheduleReconnect();
+      return;
+    }
+
+    setState(attempt === 0 ? 'connecting' : 'reconnecting');
+    const ws = new WebSocket(realtimeUrl());
+    socket = ws;
+
+    // The socket only counts as open once the server has answered the auth
+    // frame, so one that's accepted and then closed straight away still backs off.
+    let accepted = false;
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: 'auth', token }));
+      handlers.forEach((_, channel) => sendSubscribe(channel));
+    };
+
+    ws.onmessage = (message: MessageEvent) => {
+      try {
+        const event = JSON.parse(message.data as string) as WsEvent;
+        // The ack, or an event from a server that doesn't send one
+        if (!accepted) {
+          accepted = true;
+          attempt = 0;
+          setState('open');
+        }
+        dispatch(event);
+      } catch {
+        // Ignore malformed frames
+      }
+    };
+
+    ws.onclose = (event: CloseEvent) => {
+      if (socket !== ws) return;
+      socket = null;
+      if (handlers.size === 0) {
+        setState('idle');
+        return;
+      }
+      if (AUTH_REJECTED_CODES.includes(event.code)) needsRefresh = true;
+      scheduleReconnect();
+    };
+
+    // onerror is always followed by onclose, which does the reconnecting.
+    ws.onerror = () => undefined;
+  }
+
+  function scheduleReconnect() {
+    if (reconnectTimer || handlers.size === 0) return;
+    setState('reconnecting');
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (!needsRefresh) {
+        connect();
+        return;
+      }
+      // At most one refresh per step; a failed one is retried on the next
+      refreshAccessToken().then(() => {
+        needsRefresh = false;
+        connect();
+      }, scheduleReconnect);
+    }, backoffDelay(attempt++));
+  }
+
+  function disconnect() {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    attempt = 0;
+    needsRefresh = false;
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    setState('idle');
+  }
+
+  return {
+    subscribe(channel, handler) {
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+      }
+      let set = handlers.get(channel);
+      if (!set) {
+        set = new Set();
+        handlers.set(channel, set);
+        sendSubscribe(channel);
+      }
+      set.add(handler);
+      connect();
+
+      return () => {
+        const current = handlers.get(channel);
+        if (!current?.delete(handler) || current.size > 0) return;
+        handlers.delete(channel);
+        lastEventIds.delete(channel);
+        send({ type: 'unsubscribe', channel });
+        if (handlers.size === 0 && !idleTimer) {
+          idleTimer = setTimeout(() => {
+            idleTimer = null;
+            if (handlers.size === 0) disconnect();
+          }, IDLE_CLOSE_MS);
+        }
+      };
+    },
+
+    onStateChange(listener) {
+      stateListeners.add(listener);
+      return () => {
+        stateListeners.delete(listener);
+      };
+    },
+
+    getState: () => state,
+
+    close() {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = null;
+      disconnect();
+    },
+  };
+}
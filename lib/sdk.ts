@@ -0,0 +1,239 @@
+import type { AxiosResponse } from 'axios';
+import api from './api';
+import type {
+  AddCredentialRequest,
+  AdminIssue,
+  AdminSite,
+  AdminSiteDetail,
+  AdminStats,
+  AdminUser,
+  AdminUserDetail,
+  AgentAction,
+  AgentConfigResponse,
+  AgentModelConfig,
+  ApproveFixRequest,
+  Attachment,
+  AuthCredentials,
+  CeleryStatus,
+  ChatMessage,
+  CreateIssueRequest,
+  CreateSiteRequest,
+  Credential,
+  Customer,
+  Issue,
+  IssueChanges,
+  IssueListParams,
+  IssuePage,
+  IssueTemplate,
+  IssueTemplateInput,
+  KanbanColumn,
+  RefreshRequest,
+  RejectFixRequest,
+  RestartWorkersResponse,
+  RollbackRequest,
+  SavedView,
+  SavedViewInput,
+  SendMessageRequest,
+  SimilarIssue,
+  SimilarIssuesRequest,
+  Site,
+  TicketTransition,
+  TokenResponse,
+  TransitionRequest,
+  UpdateIssueRequest,
+  ViewPreferences,
+} from '@/types';
+
+// Typed wrappers around the shared axios instance. Every endpoint the app
+// talks to is declared here once, so a changed path or payload shape breaks
+// the build instead of a page at runtime. Functions resolve to the response
+// body; errors are the untouched axios errors so callers can still read
+// `response.data.detail`.
+
+const data = <T>(res: AxiosResponse<T>): T => res.data;
+
+const enc = encodeURIComponent;
+
+export interface UploadOptions {
+  /** Called with the fraction sent so far, 0–1. */
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+function uploadFile(url: string, file: File, { onProgress, signal }: UploadOptions) {
+  const formData = new FormData();
+  formData.append('file', file);
+  return api.post<Attachment>(url, formData, {
+    signal,
+    onUploadProgress: onProgress && ((e) => onProgress(e.total ? e.loaded / e.total : 0)),
+  }).then(data);
+}
+
+// ── Auth ──────────────────────────────────────────────────────────────────
+
+export const auth = {
+  login: (body: AuthCredentials) =>
+    api.post<TokenResponse>('/api/v1/auth/login', body).then(data),
+  register: (body: AuthCredentials) =>
+    api.post<TokenResponse>('/api/v1/auth/register', body).then(data),
+  logout: (body: RefreshRequest) =>
+    api.post<void>('/api/v1/auth/logout', body).then(data),
+  me: () => api.get<Customer>('/api/v1/auth/me').then(data),
+};
+
+// ── Issues ────────────────────────────────────────────────────────────────
+
+export const issues = {
+  list: (params?: IssueListParams) =>
+    api.get<Issue[]>('/api/v1/issues/', { params }).then(data),
+  /** Cursor-paginated and filtered server-side, for boards and lists of any size. */
+  listPage: (params: IssueListParams = {}) =>
+    api.get<IssuePage>('/api/v1/issues/page', { params }).then(data),
+  get: (id: string) => api.get<Issue>(`/api/v1/issues/${enc(id)}`).then(data),
+  create: (body: CreateIssueRequest) =>
+    api.post<Issue>('/api/v1/issues/', body).then(data),
+  update: (id: string, body: UpdateIssueRequest) =>
+    api.patch<Issue>(`/api/v1/issues/${enc(id)}`, body).then(data),
+  /** Closes the issue without a fix; it moves to the dismissed column. */
+  dismiss: (id: string) =>
+    api.post<Issue>(`/api/v1/issues/${enc(id)}/dismiss`).then(data),
+  /** Open issues on the site that read like the draft, best match first. */
+  findSimilar: (body: SimilarIssuesRequest, signal?: AbortSignal) =>
+    api.post<SimilarIssue[]>('/api/v1/issues/similar', body, { signal }).then(data),
+  transition: (id: string, body: TransitionRequest) =>
+    api.post<Issue>(`/api/v1/issues/${enc(id)}/transition`, body).then(data),
+  getChanges: (id: string) =>
+    api.get<IssueChanges>(`/api/v1/issues/${enc(id)}/changes`).then(data),
+  listTransitions: (id: string) =>
+    api.get<TicketTransition[]>(`/api/v1/issues/${enc(id)}/transitions`).then(data),
+  approve: (id: string, body: ApproveFixRequest = {}) =>
+    api.post<Issue>(`/api/v1/issues/${enc(id)}/approve`, body).then(data),
+  reject: (id: string, body: RejectFixRequest) =>
+    api.post<Issue>(`/api/v1/issues/${enc(id)}/reject`, body).then(data),
+  rollback: (id: string, body: RollbackRequest) =>
+    api.post<Issue>(`/api/v1/issues/${enc(id)}/rollback`, body).then(data),
+
+  listMessages: (id: string) =>
+    api.get<ChatMessage[]>(`/api/v1/issues/${enc(id)}/messages`).then(data),
+  sendMessage: (id: string, body: SendMessageRequest) =>
+    api.post<ChatMessage>(`/api/v1/issues/${enc(id)}/messages`, body).then(data),
+
+  listActions: (id: string) =>
+    api.get<AgentAction[]>(`/api/v1/issues/${enc(id)}/actions`).then(data),
+
+  listAttachments: (id: string) =>
+    api.get<Attachment[]>(`/api/v1/issues/${enc(id)}/attachments`).then(data),
+  uploadAttachment: (id: string, file: File, opts: UploadOptions = {}) =>
+    uploadFile(`/api/v1/issues/${enc(id)}/attachments`, file, opts),
+  /**
+   * Uploads a file ahead of creating its issue; pass the returned id in
+   * `CreateIssueRequest.attachment_ids`. Staged files that never get an
+   * issue are cleaned up server-side.
+   */
+  stageAttachment: (file: File, opts: UploadOptions = {}) =>
+    uploadFile('/api/v1/attachments', file, opts),
+  /** Fetches an attachment's contents with the session's credentials, for previews. */
+  downloadAttachment: (attachment: Attachment, signal?: AbortSignal) =>
+    api.get<Blob>(attachment.download_url, { responseType: 'blob', signal }).then(data),
+  deleteAttachment: (id: string, attachmentId: string) =>
+    api.delete<void>(`/api/v1/issues/${enc(id)}/attachments/${enc(attachmentId)}`).then(data),
+};
+
+// ── Saved views ───────────────────────────────────────────────────────────
+
+export const views = {
+  /** The caller's own views and those shared with them. */
+  list: () => api.get<SavedView[]>('/api/v1/views').then(data),
+  create: (body: SavedViewInput) => api.post<SavedView>('/api/v1/views', body).then(data),
+  update: (id: string, body: SavedViewInput) =>
+    api.put<SavedView>(`/api/v1/views/${enc(id)}`, body).then(data),
+  remove: (id: string) => api.delete<void>(`/api/v1/views/${enc(id)}`).then(data),
+  getPreferences: () => api.get<ViewPreferences>('/api/v1/views/preferences').then(data),
+  updatePreferences: (body: ViewPreferences) =>
+    api.put<ViewPreferences>('/api/v1/views/preferences', body).then(data),
+};
+
+// ── Issue templates ───────────────────────────────────────────────────────
+
+export const templates = {
+  /** Active templates offered on the caller's plan, in display order. */
+  list: () => api.get<IssueTemplate[]>('/api/v1/issue-templates').then(data),
+};
+
+// ── Sites ─────────────────────────────────────────────────────────────────
+
+export const sites = {
+  list: () => api.get<Site[]>('/api/v1/sites/').then(data),
+  get: (id: string) => api.get<Site>(`/api/v1/sites/${enc(id)}`).then(data),
+  create: (body: CreateSiteRequest) =>
+    api.post<Site>('/api/v1/sites/', body).then(data),
+  healthCheck: (id: string) =>
+    api.post<void>(`/api/v1/sites/${enc(id)}/health-check`).then(data),
+
+  listCredentials: (id: string) =>
+    api.get<Credential[]>(`/api/v1/sites/${enc(id)}/credentials`).then(data),
+  addCredential: (id: string, body: AddCredentialRequest) =>
+    api.post<Credential>(`/api/v1/sites/${enc(id)}/credentials`, body).then(data),
+  deleteCredential: (id: string, credentialId: string) =>
+    api.delete<void>(`/api/v1/sites/${enc(id)}/credentials/${enc(credentialId)}`).then(data),
+};
+
+// ── Admin (internal) ──────────────────────────────────────────────────────
+
+const ADMIN = '/api/v1/internal/admin';
+
+export const admin = {
+  stats: () => api.get<AdminStats>(`${ADMIN}/stats`).then(data),
+
+  users: {
+    list: (search?: string) =>
+      api.get<AdminUser[]>(`${ADMIN}/users`, { params: search ? { search } : undefined }).then(data),
+    get: (id: string) => api.get<AdminUserDetail>(`${ADMIN}/users/${enc(id)}`).then(data),
+    changePlan: (id: string, plan: string) =>
+      api.patch<void>(`${ADMIN}/users/${enc(id)}/plan`, { plan }).then(data),
+    setActive: (id: string, active: boolean) =>
+      api.patch<void>(`${ADMIN}/users/${enc(id)}/status`, { active }).then(data),
+  },
+
+  sites: {
+    list: (search?: string) =>
+      api.get<AdminSite[]>(`${ADMIN}/sites`, { params: search ? { search } : undefined }).then(data),
+    get: (id: string) => api.get<AdminSiteDetail>(`${ADMIN}/sites/${enc(id)}`).then(data),
+    setActive: (id: string, active: boolean) =>
+      api.patch<void>(`${ADMIN}/sites/${enc(id)}/status`, { active }).then(data),
+  },
+
+  issues: {
+    list: (kanbanColumn?: KanbanColumn) =>
+      api
+        .get<AdminIssue[]>(`${ADMIN}/issues`, {
+          params: kanbanColumn ? { kanban_column: kanbanColumn } : undefined,
+        })
+        .then(data),
+    transition: (id: string, body: TransitionRequest) =>
+      api.post<void>(`${ADMIN}/issues/${enc(id)}/transition`, body).then(data),
+  },
+
+  templates: {
+    list: () => api.get<IssueTemplate[]>(`${ADMIN}/issue-templates`).then(data),
+    create: (body: IssueTemplateInput) =>
+      api.post<IssueTemplate>(`${ADMIN}/issue-templates`, body).then(data),
+    update: (id: string, body: IssueTemplateInput) =>
+      api.put<IssueTemplate>(`${ADMIN}/issue-templates/${enc(id)}`, body).then(data),
+    remove: (id: string) =>
+      api.delete<void>(`${ADMIN}/issue-templates/${enc(id)}`).then(data),
+  },
+
+  agents: {
+    getConfig: () => api.get<AgentConfigResponse>(`${ADMIN}/agent-config`).then(data),
+    saveConfig: (config: AgentModelConfig) =>
+      api.post<void>(`${ADMIN}/agent-config`, config).then(data),
+    celeryStatus: () => api.get<CeleryStatus>(`${ADMIN}/celery-status`).then(data),
+    restartWorkers: () =>
+      api.post<RestartWorkersResponse>(`${ADMIN}/restart-workers`).then(data),
+  },
+};
+
+const sdk = { auth, issues, views, templates, sites, admin };
+
+export default sdk;
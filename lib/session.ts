@@ -0,0 +1,39 @@
+import type { TokenResponse } from '@/types';
+
+const TOKEN_KEY = 'sitedoc_token';
+const REFRESH_TOKEN_KEY = 'sitedoc_refresh_token';
+
+// Read by middleware.ts to guard app routes at the edge.
+export const ACCESS_TOKEN_COOKIE = TOKEN_KEY;
+
+// Used when the API omits `expires_in`; matches the backend's access token TTL.
+const DEFAULT_ACCESS_TTL_SECONDS = 15 * 60;
+
+export function getAccessToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function getRefreshToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function storeSession(tokens: TokenResponse): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(TOKEN_KEY, tokens.access_token);
+  if (tokens.refresh_token) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+  }
+  // Mirror the access token to a cookie so Next.js middleware (edge runtime)
+  // can read it. It lives exactly as long as the token itself.
+  const maxAge = tokens.expires_in ?? DEFAULT_ACCESS_TTL_SECONDS;
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=${tokens.access_token}; path=/; max-age=${maxAge}; SameSite=Lax`;
+}
+
+export function clearSession(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=; path=/; max-age=0`;
+}
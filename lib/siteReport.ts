@@ -0,0 +1,125 @@
+import sdk from './sdk';
+import { runBulk } from './bulk';
+import { fetchAllIssues } from './issueExport';
+import type { Issue, Site } from '@/types';
+
+// The monthly maintenance report agencies hand to their clients: what
+// happened on one site over a period, gathered from the same endpoints the
+// dashboard, sites and issues pages use, plus the agency's own branding.
+
+const BRANDING_KEY = 'sitedoc_report_branding';
+
+/** The agency's look, kept in this browser. */
+export interface ReportBranding {
+  agencyName: string;
+  /** A data: URL, so the logo prints without another request. */
+  logo: string | null;
+  primaryColor: string;
+  accentColor: string;
+}
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  agencyName: '',
+  logo: null,
+  primaryColor: '#1e293b',
+  accentColor: '#2563eb',
+};
+
+/** Whole local days, both ends included, as `YYYY-MM-DD`. */
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+export interface ReportFix {
+  issue: Issue;
+  /** What the agents did, step by step. */
+  steps: string[];
+}
+
+export interface SiteReport {
+  site: Site;
+  range: ReportRange;
+  /** Reported during the period. */
+  found: Issue[];
+  /** Closed as fixed during the period, whenever they were reported. */
+  fixes: ReportFix[];
+  /** Still open at the end of the period. */
+  outstanding: Issue[];
+}
+
+export function loadReportBranding(): ReportBranding {
+  try {
+    const raw = localStorage.getItem(BRANDING_KEY);
+    return raw ? { ...DEFAULT_BRANDING, ...JSON.parse(raw) } : DEFAULT_BRANDING;
+  } catch {
+    return DEFAULT_BRANDING;
+  }
+}
+
+export function saveReportBranding(branding: ReportBranding): void {
+  try {
+    localStorage.setItem(BRANDING_KEY, JSON.stringify(branding));
+  } catch {
+    // Over quota, most likely a large logo; it still applies until reload
+  }
+}
+
+function isoDay(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** The previous calendar month, the period most reports cover. */
+export function lastMonth(now = new Date()): ReportRange {
+  return {
+    from: isoDay(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    to: isoDay(new Date(now.getFullYear(), now.getMonth(), 0)),
+  };
+}
+
+/** The range as instants: the start of `from` up to, not including, the day after `to`. */
+export function rangeBounds(range: ReportRange): { start: Date; end: Date } {
+  const start = new Date(`${range.from}T00:00:00`);
+  const end = new Date(`${range.to}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+function within(iso: string | null, start: Date, end: Date): boolean {
+  if (!iso) return false;
+  const t = new Date(iso).getTime();
+  return t >= start.getTime() && t < end.getTime();
+}
+
+export async function fetchSiteReport(siteId: string, range: ReportRange): Promise<SiteReport> {
+  const { start, end } = rangeBounds(range);
+  const [site, issues] = await Promise.all([
+    sdk.sites.get(siteId),
+    fetchAllIssues({ site_id: siteId, created_before: end.toISOString(), sort: 'oldest' }),
+  ]);
+
+  const resolved = issues.filter((i) => i.status === 'resolved' && within(i.resolved_at, start, end));
+  // A fix without its steps still belongs in the report
+  const actions = await runBulk(resolved, (issue) => sdk.issues.listActions(issue.id));
+  const steps = new Map(actions.succeeded.map(({ item, result }) => [
+    item.id,
+    result
+      .filter((a) => a.sequence !== 'rollback' && a.status === 'completed')
+      .map((a) => a.description),
+  ]));
+
+  return {
+    site,
+    range,
+    found: issues.filter((i) => within(i.created_at, start, end)),
+    fixes: resolved
+      .sort((a, b) => (a.resolved_at ?? '').localeCompare(b.resolved_at ?? ''))
+      .map((issue) => ({ issue, steps: steps.get(issue.id) ?? [] })),
+    // Open now, or closed only after the period ended
+    outstanding: issues.filter((i) =>
+      (i.status !== 'resolved' && i.status !== 'dismissed') ||
+      (i.resolved_at !== null && new Date(i.resolved_at).getTime() >= end.getTime())
+    ),
+  };
+}
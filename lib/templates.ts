@@ -0,0 +1,140 @@
+import type { IssueTemplate, IssueTemplateInput, TemplateField } from '@/types';
+
+// Issue templates pre-fill the new issue form for problems customers report
+// over and over. The catalogue lives on the API and is managed under
+// /admin/templates; the starter set below seeds an empty catalogue.
+
+const STARTED: TemplateField = {
+  key: 'started',
+  label: 'When did it start?',
+  type: 'text',
+  placeholder: 'e.g. this morning, after Tuesday’s update',
+  required: true,
+};
+
+const RECENT_CHANGES: TemplateField = {
+  key: 'recent_changes',
+  label: 'Recent changes',
+  type: 'textarea',
+  placeholder: 'Plugin or theme updates, new plugins, hosting or DNS changes…',
+};
+
+const EXPECTED: TemplateField = {
+  key: 'expected',
+  label: 'What should happen?',
+  type: 'textarea',
+  required: true,
+};
+
+const ACTUAL: TemplateField = {
+  key: 'actual',
+  label: 'What happens instead?',
+  type: 'textarea',
+  required: true,
+};
+
+export const STARTER_TEMPLATES: IssueTemplateInput[] = [
+  {
+    name: 'White screen of death',
+    description: 'The site or admin shows a blank page or “critical error”.',
+    title: 'Site shows a blank white page',
+    default_priority: 'critical',
+    fields: [
+      STARTED,
+      RECENT_CHANGES,
+      { key: 'wp_admin', label: 'Can you still log in to wp-admin?', type: 'text', placeholder: 'Yes / No / Not sure' },
+    ],
+    require_page_url: true,
+    plans: [],
+    active: true,
+    sort_order: 10,
+  },
+  {
+    name: 'Plugin conflict after update',
+    description: 'Something broke right after updating a plugin, theme or WordPress.',
+    title: 'Site broken after updating a plugin',
+    default_priority: 'high',
+    fields: [
+      { key: 'updated', label: 'What was updated?', type: 'text', placeholder: 'e.g. WooCommerce 8.9 → 9.0', required: true },
+      STARTED,
+      EXPECTED,
+      ACTUAL,
+    ],
+    require_page_url: false,
+    plans: [],
+    active: true,
+    sort_order: 20,
+  },
+  {
+    name: 'Slow page load',
+    description: 'Pages take noticeably longer to load than they used to.',
+    title: 'Pages are loading slowly',
+    default_priority: 'medium',
+    fields: [
+      STARTED,
+      { key: 'load_time', label: 'Roughly how long does a page take?', type: 'text', placeholder: 'e.g. 8–10 seconds' },
+      RECENT_CHANGES,
+    ],
+    require_page_url: true,
+    plans: [],
+    active: true,
+    sort_order: 30,
+  },
+  {
+    name: 'Broken contact form',
+    description: 'Form submissions fail or the emails never arrive.',
+    title: 'Contact form isn’t working',
+    default_priority: 'high',
+    fields: [
+      { key: 'form_plugin', label: 'Form plugin', type: 'text', placeholder: 'e.g. Contact Form 7, Gravity Forms, WPForms' },
+      { key: 'last_received', label: 'Last submission you received', type: 'date' },
+      EXPECTED,
+      ACTUAL,
+    ],
+    require_page_url: true,
+    plans: [],
+    active: true,
+    sort_order: 40,
+  },
+  {
+    name: 'SSL / security warning',
+    description: 'Browsers show “Not secure”, a certificate error or mixed-content warnings.',
+    title: 'Browser shows a security warning',
+    default_priority: 'high',
+    fields: [
+      { key: 'warning', label: 'Exact warning text', type: 'textarea', placeholder: 'Copy the message, or attach a screenshot', required: true },
+      STARTED,
+      RECENT_CHANGES,
+    ],
+    require_page_url: true,
+    plans: [],
+    active: true,
+    sort_order: 50,
+  },
+];
+
+/** "When did it start?" → "when_did_it_start" */
+export function fieldKey(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'field';
+}
+
+export function missingFields(template: IssueTemplate, values: Record<string, string>): TemplateField[] {
+  return template.fields.filter((f) => f.required && !values[f.key]?.trim());
+}
+
+/**
+ * Folds the template's answers into the description as Markdown, so they
+ * read naturally in the issue and reach the agents even where only the
+ * description is passed along.
+ */
+export function composeDescription(
+  template: IssueTemplate,
+  values: Record<string, string>,
+  details: string,
+): string {
+  const sections = template.fields
+    .filter((f) => values[f.key]?.trim())
+    .map((f) => `**${f.label}**\n${values[f.key].trim()}`);
+  if (details.trim()) sections.push(sections.length > 0 ? `**Anything else**\n${details.trim()}` : details.trim());
+  return sections.join('\n\n');
+}
@@ -0,0 +1,43 @@
+import type { ApproveFixRequest, FixFeedback, KanbanColumn, RejectFixRequest, TransitionRequest } from '@/types';
+
+// Moves a customer may make on their own tickets. Every other column change
+// is driven by the agents or by staff. The API enforces the same rules; this
+// only decides which drops the board offers.
+
+export interface CustomerTransition {
+  to: KanbanColumn;
+  label: string;
+  /**
+   * The move is a UAT verdict: it goes through the approve or reject dialog
+   * and carries the same feedback as signing off on the issue page.
+   */
+  verdict?: FixFeedback['verdict'];
+}
+
+const CUSTOMER_TRANSITIONS: Partial<Record<KanbanColumn, CustomerTransition[]>> = {
+  ready_for_uat_approval: [{ to: 'todo', label: 'Approve & start work' }],
+  ready_for_uat: [
+    { to: 'done', label: 'UAT pass — looks good', verdict: 'approved' },
+    { to: 'todo', label: 'UAT fail — still broken', verdict: 'rejected' },
+  ],
+};
+
+export function customerTransitions(from: KanbanColumn): CustomerTransition[] {
+  return CUSTOMER_TRANSITIONS[from] ?? [];
+}
+
+export function customerTransition(from: KanbanColumn, to: KanbanColumn): CustomerTransition | null {
+  return customerTransitions(from).find((t) => t.to === to) ?? null;
+}
+
+export function approvalTransition(to: KanbanColumn, body: ApproveFixRequest): TransitionRequest {
+  return { to_col: to, note: body.comment, feedback: { verdict: 'approved', rating: body.rating } };
+}
+
+export function rejectionTransition(to: KanbanColumn, body: RejectFixRequest): TransitionRequest {
+  return {
+    to_col: to,
+    note: body.reason,
+    feedback: { verdict: 'rejected', category: body.category, attachment_ids: body.attachment_ids },
+  };
+}
@@ -0,0 +1,70 @@
+import type { Attachment } from '@/types';
+
+// Client-side limits for issue attachments. The API enforces the same ones;
+// checking here means a 200 MB screen recording is turned away before it
+// spends minutes uploading.
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+const ALLOWED_MIME_PREFIXES = ['image/', 'text/'];
+
+const ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/json',
+  'application/zip',
+  'application/x-zip-compressed',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+];
+
+// Browsers often report an empty type for these
+const ALLOWED_EXTENSIONS = ['log', 'txt', 'csv', 'json', 'har', 'zip', 'md'];
+
+/** Human-readable size, e.g. "1.4 MB". */
+export function formatBytes(bytes: number | null): string {
+  if (bytes == null) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Absolute URL for downloading an attachment. */
+export function attachmentHref(att: Attachment): string {
+  return `${process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:5000'}${att.download_url}`;
+}
+
+/** Why `file` can't be attached, or null if it can. */
+export function validateAttachment(file: File): string | null {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is ${formatBytes(file.size)} — the limit is ${formatBytes(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  if (file.size === 0) return `${file.name} is empty.`;
+
+  const type = file.type.toLowerCase();
+  const ext = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const allowed =
+    ALLOWED_MIME_PREFIXES.some((prefix) => type.startsWith(prefix)) ||
+    ALLOWED_MIME_TYPES.includes(type) ||
+    ALLOWED_EXTENSIONS.includes(ext);
+  return allowed ? null : `${file.name} isn't a supported file type.`;
+}
+
+/** Network drops, timeouts, rate limits and 5xx are worth another go; 4xx are not. */
+export function isTransientUploadError(err: unknown): boolean {
+  const e = err as { response?: { status?: number }; code?: string };
+  if (!e?.response) return e?.code !== 'ERR_CANCELED';
+  const status = e.response.status ?? 0;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Pasted screenshots all arrive as "image.png"; give them a timestamped
+ * name so several in a row stay distinguishable.
+ */
+export function nameClipboardFile(file: File): File {
+  if (file.name && file.name !== 'image.png') return file;
+  const ext = file.type.split('/')[1] || 'png';
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return new File([file], `screenshot-${stamp}.${ext}`, { type: file.type });
+}
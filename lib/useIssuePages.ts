@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import sdk from './sdk';
+import type { Issue, IssueListParams } from '@/types';
+
+export interface PageState {
+  /** Cursor for the next page; undefined until the first page arrives, null after the last. */
+  next: string | null | undefined;
+  /** Matching issues on the server, across all pages. */
+  total: number | null;
+  loading: boolean;
+  error: string;
+}
+
+export interface IssuePages {
+  /** Every issue loaded so far, across all queries, without duplicates. */
+  issues: Issue[];
+  setIssues: React.Dispatch<React.SetStateAction<Issue[]>>;
+  pages: Record<string, PageState>;
+  /** True until every query's first page has settled. */
+  loading: boolean;
+  /** Fetches the query's next page, or retries the one that failed. */
+  loadMore: (name: string) => void;
+}
+
+const EMPTY_PAGE: PageState = { next: undefined, total: null, loading: false, error: '' };
+
+function mergeIssues(prev: Issue[], incoming: Issue[]): Issue[] {
+  const known = new Set(prev.map((i) => i.id));
+  const fresh = incoming.filter((i) => !known.has(i.id));
+  return fresh.length > 0 ? prev.concat(fresh) : prev;
+}
+
+/**
+ * Loads issues a page at a time for one or more named queries — one per
+ * board column, or a single one for the list — into a shared array.
+ * Changing the queries starts over from the first pages. `onPage` sees each
+ * page's issues as they arrive.
+ */
+export function useIssuePages(
+  queries: Record<string, IssueListParams>,
+  onPage?: (items: Issue[]) => void,
+): IssuePages {
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [pages, setPages] = useState<Record<string, PageState>>({});
+  const [loading, setLoading] = useState(true);
+
+  // Compared by value, so callers can build the queries inline
+  const key = JSON.stringify(queries);
+  // Bumped on every reset; responses for an older generation are dropped
+  const generation = useRef(0);
+  const inFlight = useRef(new Set<string>());
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+
+  // Keep the latest callback without refetching
+  const onPageRef = useRef(onPage);
+  onPageRef.current = onPage;
+
+  const fetchPage = useCallback((name: string, cursor?: string) => {
+    const params = (JSON.parse(key) as Record<string, IssueListParams>)[name];
+    if (!params || inFlight.current.has(name)) return Promise.resolve();
+    const gen = generation.current;
+    const patch = (changes: Partial<PageState>) =>
+      setPages((prev) => ({ ...prev, [name]: { ...(prev[name] ?? EMPTY_PAGE), ...changes } }));
+
+    inFlight.current.add(name);
+    patch({ loading: true, error: '' });
+    return sdk.issues
+      .listPage({ ...params, cursor })
+      .then((page) => {
+        if (gen !== generation.current) return;
+        setIssues((prev) => mergeIssues(prev, page.items));
+        patch({ next: page.next_cursor, total: page.total, loading: false });
+        onPageRef.current?.(page.items);
+      })
+      .catch((e: unknown) => {
+        if (gen !== generation.current) return;
+        const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+        patch({ loading: false, error: typeof d === 'string' ? d : 'Couldn’t load issues.' });
+      })
+      .finally(() => {
+        if (gen === generation.current) inFlight.current.delete(name);
+      });
+  }, [key]);
+
+  useEffect(() => {
+    const gen = ++generation.current;
+    inFlight.current = new Set();
+    setIssues([]);
+    setPages({});
+    setLoading(true);
+    const names = Object.keys(JSON.parse(key) as Record<string, IssueListParams>);
+    Promise.all(names.map((name) => fetchPage(name))).finally(() => {
+      if (gen === generation.current) setLoading(false);
+    });
+  }, [key, fetchPage]);
+
+  const loadMore = useCallback((name: string) => {
+    const page = pagesRef.current[name];
+    if (!page || page.loading || page.next === null) return;
+    fetchPage(name, page.next);
+  }, [fetchPage]);
+
+  return { issues, setIssues, pages, loading, loadMore };
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import sdk from './sdk';
+import { hasPermission } from './permissions';
+import type { Permission } from './permissions';
+import type { Customer, Role } from '@/types';
+
+// One /auth/me request per page load, shared by both layouts and any page
+// that gates its own controls. Logout is a full navigation, which resets it.
+let mePromise: Promise<Customer> | null = null;
+
+function fetchMe(): Promise<Customer> {
+  if (!mePromise) {
+    mePromise = sdk.auth.me().catch((err: unknown) => {
+      mePromise = null;
+      throw err;
+    });
+  }
+  return mePromise;
+}
+
+const NO_ROLES: Role[] = [];
+
+export function usePermissions() {
+  const [me, setMe] = useState<Customer | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMe()
+      .then((customer) => {
+        if (!cancelled) setMe(customer);
+      })
+      .catch(() => {
+        // A 401 is handled by the API client; anything else leaves `me` null,
+        // which grants nothing beyond the customer app.
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const roles = me?.roles ?? NO_ROLES;
+  const can = useCallback((permission: Permission) => hasPermission(roles, permission), [roles]);
+
+  return { me, roles, can, loading };
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import sdk from './sdk';
+import type { SavedView, SavedViewInput, ViewPreferences } from '@/types';
+
+// Saved views and the caller's view preferences, fetched once per page load
+// and shared by the issues page and the sidebar, so pinning a view in one
+// shows up in the other straight away. Changes go to the API first and are
+// then published to every mounted hook.
+
+export interface SavedViewsState {
+  views: SavedView[];
+  prefs: ViewPreferences;
+}
+
+const NO_VIEWS: SavedView[] = [];
+const NO_PREFS: ViewPreferences = { default_view_id: null, pinned_view_ids: [] };
+
+let current: SavedViewsState | null = null;
+let loadPromise: Promise<SavedViewsState> | null = null;
+const listeners = new Set<(state: SavedViewsState) => void>();
+
+function publish(next: SavedViewsState) {
+  current = next;
+  listeners.forEach((listener) => listener(next));
+}
+
+export function loadSavedViews(): Promise<SavedViewsState> {
+  if (!loadPromise) {
+    loadPromise = Promise.all([sdk.views.list(), sdk.views.getPreferences()])
+      .then(([views, prefs]) => {
+        const state = { views, prefs };
+        publish(state);
+        return state;
+      })
+      .catch((err: unknown) => {
+        loadPromise = null;
+        throw err;
+      });
+  }
+  return loadPromise;
+}
+
+export function useSavedViews() {
+  const [state, setState] = useState<SavedViewsState | null>(current);
+  const [loading, setLoading] = useState(current === null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listeners.add(setState);
+    loadSavedViews()
+      .catch(() => {
+        // Views are an extra; without them the menu and sidebar are just empty
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+      listeners.delete(setState);
+    };
+  }, []);
+
+  return { views: state?.views ?? NO_VIEWS, prefs: state?.prefs ?? NO_PREFS, loading };
+}
+
+async function savePreferences(prefs: ViewPreferences) {
+  const saved = await sdk.views.updatePreferences(prefs);
+  if (current) publish({ ...current, prefs: saved });
+}
+
+export async function createView(input: SavedViewInput): Promise<SavedView> {
+  const view = await sdk.views.create(input);
+  if (current) publish({ ...current, views: [...current.views, view] });
+  return view;
+}
+
+export async function updateView(id: string, input: SavedViewInput): Promise<SavedView> {
+  const view = await sdk.views.update(id, input);
+  if (current) publish({ ...current, views: current.views.map((v) => (v.id === id ? view : v)) });
+  return view;
+}
+
+export async function deleteView(id: string): Promise<void> {
+  await sdk.views.remove(id);
+  if (!current) return;
+  // The API drops it from everyone's preferences too
+  const prefs = current.prefs;
+  publish({
+    views: current.views.filter((v) => v.id !== id),
+    prefs: {
+      default_view_id: prefs.default_view_id === id ? null : prefs.default_view_id,
+      pinned_view_ids: prefs.pinned_view_ids.filter((p) => p !== id),
+    },
+  });
+}
+
+export function setViewPinned(id: string, pinned: boolean): Promise<void> {
+  const prefs = current?.prefs ?? NO_PREFS;
+  const others = prefs.pinned_view_ids.filter((p) => p !== id);
+  return savePreferences({ ...prefs, pinned_view_ids: pinned ? [...others, id] : others });
+}
+
+/** Pass null to go back to the unfiltered board. */
+export function setDefaultView(id: string | null): Promise<void> {
+  return savePreferences({ ...(current?.prefs ?? NO_PREFS), default_view_id: id });
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UploadOptions } from './sdk';
+import type { Attachment } from '@/types';
+import { isTransientUploadError, validateAttachment } from './uploads';
+
+// Uploads beyond this many wait their turn
+const MAX_CONCURRENT = 3;
+// Total tries per file, including the first
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;
+
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'failed' | 'rejected';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  /** 0–1 */
+  progress: number;
+  status: UploadStatus;
+  error?: string;
+  attempt: number;
+}
+
+export interface UploadQueue {
+  items: UploadItem[];
+  /** True while anything is queued, uploading or waiting to retry. */
+  busy: boolean;
+  addFiles: (files: File[]) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  dismiss: (id: string) => void;
+}
+
+let nextId = 0;
+
+/**
+ * Uploads files a few at a time with per-file progress. Transient failures
+ * are retried with backoff; finished files leave the queue and are handed
+ * to `onUploaded`. Files that fail validation stay listed as rejected so the
+ * customer sees why.
+ */
+export function useUploadQueue(
+  upload: (file: File, opts: UploadOptions) => Promise<Attachment>,
+  onUploaded: (attachment: Attachment) => void,
+): UploadQueue {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const started = useRef(new Set<string>());
+
+  // Keep the latest callbacks without restarting in-flight uploads
+  const uploadRef = useRef(upload);
+  const onUploadedRef = useRef(onUploaded);
+  uploadRef.current = upload;
+  onUploadedRef.current = onUploaded;
+
+  const patch = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((it) => (it.id === id ? { ...it, ...changes } : it)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems((prev) => prev.filter((it) => it.id !== id));
+  }, []);
+
+  const run = useCallback(async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    patch(item.id, { status: 'uploading', progress: 0, error: undefined });
+
+    try {
+      const attachment = await uploadRef.current(item.file, {
+        signal: controller.signal,
+        onProgress: (progress) => patch(item.id, { progress }),
+      });
+      onUploadedRef.current(attachment);
+      remove(item.id);
+    } catch (e) {
+      // Cancelled — the item was already removed
+      if (controller.signal.aborted) return;
+
+      const attempt = item.attempt + 1;
+      if (attempt < MAX_ATTEMPTS && isTransientUploadError(e)) {
+        patch(item.id, { status: 'retrying', attempt });
+        timers.current.set(item.id, setTimeout(() => {
+          timers.current.delete(item.id);
+          started.current.delete(item.id);
+          patch(item.id, { status: 'queued' });
+        }, RETRY_BASE_MS * 2 ** (attempt - 1)));
+        return;
+      }
+
+      const d = (e as { response?: { data?: { detail?: unknown } } })?.response?.data?.detail;
+      patch(item.id, { status: 'failed', error: typeof d === 'string' ? d : 'Upload failed.' });
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [patch, remove]);
+
+  // Start queued items while there's room
+  useEffect(() => {
+    let active = items.filter((it) => it.status === 'uploading').length;
+    for (const item of items) {
+      if (active >= MAX_CONCURRENT) break;
+      if (item.status !== 'queued' || started.current.has(item.id)) continue;
+      started.current.add(item.id);
+      active++;
+      run(item);
+    }
+  }, [items, run]);
+
+  // Abort everything on unmount
+  useEffect(() => {
+    const ctrls = controllers.current;
+    const tms = timers.current;
+    return () => {
+      ctrls.forEach((c) => c.abort());
+      tms.forEach((t) => clearTimeout(t));
+    };
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.map<UploadItem>((file) => {
+      const error = validateAttachment(file);
+      return {
+        id: `upload-${++nextId}`,
+        file,
+        progress: 0,
+        status: error ? 'rejected' : 'queued',
+        error: error ?? undefined,
+        attempt: 0,
+      };
+    });
+    if (added.length > 0) setItems((prev) => [...prev, ...added]);
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    const timer = timers.current.get(id);
+    if (timer) clearTimeout(timer);
+    timers.current.delete(id);
+    started.current.delete(id);
+    remove(id);
+  }, [remove]);
+
+  const retry = useCallback((id: string) => {
+    started.current.delete(id);
+    patch(id, { status: 'queued', attempt: 0, progress: 0, error: undefined });
+  }, [patch]);
+
+  const dismiss = useCallback((id: string) => {
+    started.current.delete(id);
+    remove(id);
+  }, [remove]);
+
+  const busy = items.some((it) => it.status === 'queued' || it.status === 'uploading' || it.status === 'retrying');
+
+  return { items, busy, addFiles, cancel, retry, dismiss };
+}
@@ -1,26 +1,44 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { verifyJwt } from '@/lib/jwt';
+import { hasPermission, parseRoles, routePermission } from '@/lib/permissions';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/session';
 
-export function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
 
-  // Protect all /dashboard routes
-  if (pathname.startsWith('/dashboard')) {
-    // We can't access localStorage in middleware (edge runtime),
-    // so we check a cookie as a presence signal.
-    // The actual token validation happens server-side / via API.
-    const token = request.cookies.get('sitedoc_token')?.value;
+  // We can't access localStorage in middleware (edge runtime), so the access
+  // token is mirrored to a cookie. Its presence alone proves nothing: the
+  // signature and expiry are checked here before any app page renders.
+  // The API still authorises every request on its own.
+  const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  // Without JWT_SECRET every token is refused, except in development with
+  // SITEDOC_ALLOW_UNSIGNED_JWT=1 set explicitly.
+  const claims = token
+    ? await verifyJwt(token, process.env.JWT_SECRET, {
+        allowUnsigned: process.env.SITEDOC_ALLOW_UNSIGNED_JWT === '1',
+      })
+    : null;
 
-    if (!token) {
-      const loginUrl = new URL('/login', request.url);
-      loginUrl.searchParams.set('from', pathname);
-      return NextResponse.redirect(loginUrl);
-    }
+  if (!claims) {
+    // An expired access token lands here too; the login page silently
+    // restores the session from the refresh token and sends the user back.
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('from', pathname + search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Roles come from the token's `roles` claim, signed by the backend — never
+  // from anything the browser can edit. Tokens without the claim are plain
+  // customers.
+  const required = routePermission(pathname);
+  if (required && !hasPermission(parseRoles(claims.roles), required)) {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
   }
 
   return NextResponse.next();
 }
 
 export const config = {
-  matcher: ['/dashboard/:path*'],
+  matcher: ['/dashboard/:path*', '/issues/:path*', '/sites/:path*', '/admin/:path*'],
 };
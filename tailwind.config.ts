@@ -12,6 +12,15 @@ const config: Config = {
         background: "var(--background)",
         foreground: "var(--foreground)",
       },
+      keyframes: {
+        "card-enter": {
+          from: { opacity: "0", transform: "translateY(-6px) scale(0.98)" },
+          to: { opacity: "1", transform: "none" },
+        },
+      },
+      animation: {
+        "card-enter": "card-enter 300ms ease-out",
+      },
     },
   },
   plugins: [],
@@ -1,7 +1,10 @@
+export type Role = 'admin' | 'support' | 'billing' | 'customer';
+
 export interface Customer {
   id: string;
   email: string;
   plan: string;
+  roles: Role[];
   created_at: string;
 }
 
@@ -40,6 +43,39 @@ export interface Issue {
   ticket_number: number | null;
   created_at: string;
   resolved_at: string | null;
+  /** The agent role the ticket is assigned to; null while none owns it. */
+  assigned_agent_role?: 'pm' | 'dev' | 'qa' | null;
+  /** Pages the customer said show the problem. */
+  page_urls?: string[];
+  environment?: ClientEnvironment | null;
+}
+
+/** The reporter's browser and device, captured when the issue is created. */
+export interface ClientEnvironment {
+  user_agent: string;
+  /** e.g. "Chrome 129" */
+  browser: string;
+  /** e.g. "macOS" */
+  os: string;
+  device: 'desktop' | 'tablet' | 'mobile';
+  /** e.g. "1440×900" */
+  viewport: string;
+  screen: string;
+  pixel_ratio: number;
+  language: string;
+  timezone: string;
+}
+
+export type RejectionCategory = 'not_fixed' | 'broke_something_else' | 'wrong_approach';
+
+/** The customer's verdict on a fix, kept on the transition it caused. */
+export interface FixFeedback {
+  verdict: 'approved' | 'rejected';
+  /** Rejections only. */
+  category?: RejectionCategory;
+  /** Approvals only, 1–5. */
+  rating?: number;
+  attachment_ids?: string[];
 }
 
 export interface TicketTransition {
@@ -50,6 +86,7 @@ export interface TicketTransition {
   actor_type: string;
   actor_id: string | null;
   note: string | null;
+  feedback?: FixFeedback | null;
   created_at: string;
 }
 
@@ -69,9 +106,356 @@ export interface AgentAction {
   description: string;
   status: string;
   error_detail?: string;
+  /** Which run the step belongs to; actions without one are part of the fix. */
+  sequence?: 'fix' | 'rollback';
 }
 
 export interface WsEvent {
   type: string;
+  channel?: string;
+  event_id?: string | number;
   [key: string]: unknown;
 }
+
+export interface Attachment {
+  id: string;
+  /** Null for uploads staged before their issue exists. */
+  issue_id: string | null;
+  filename: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  uploaded_by: string;
+  created_at: string;
+  download_url: string;
+}
+
+export type CredentialType =
+  | 'ssh'
+  | 'ftp'
+  | 'wp_admin'
+  | 'database'
+  | 'cpanel'
+  | 'wp_app_password'
+  | 'api_key';
+
+export interface Credential {
+  id: string;
+  site_id: string;
+  credential_type: string;
+  created_at: string;
+}
+
+// Which part of a WordPress install a changed file belongs to
+export type FileChangeArea = 'theme' | 'plugin' | 'config' | 'core' | 'other';
+
+export interface FileChange {
+  path: string;
+  old_path: string | null;
+  area: FileChangeArea;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  /** Unified diff (hunks only, no file headers). Empty for binary files. */
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface DatabaseChange {
+  table: string;
+  operation: 'insert' | 'update' | 'delete' | 'schema';
+  rows_affected: number;
+  summary: string;
+}
+
+export interface IssueChanges {
+  /** True once the fix is live on the site; false while it awaits approval. */
+  applied: boolean;
+  files: FileChange[];
+  database: DatabaseChange[];
+  created_at: string | null;
+}
+
+export type TemplateFieldType = 'text' | 'textarea' | 'date';
+
+export interface TemplateField {
+  /** Stable identifier; the value is sent under this key. */
+  key: string;
+  label: string;
+  type: TemplateFieldType;
+  placeholder?: string;
+  required?: boolean;
+}
+
+/** A pre-filled starting point for a common kind of issue. */
+export interface IssueTemplate {
+  id: string;
+  name: string;
+  /** One line shown under the name in the picker. */
+  description: string;
+  /** Suggested issue title. */
+  title: string;
+  default_priority: Issue['priority'];
+  fields: TemplateField[];
+  /** Makes at least one affected page URL mandatory. */
+  require_page_url: boolean;
+  /** Plans the template is offered on; empty means every plan. */
+  plans: string[];
+  active: boolean;
+  sort_order: number;
+}
+
+// ── Request / response payloads ───────────────────────────────────────────
+
+export interface AuthCredentials {
+  email: string;
+  password: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  // Omitted by /auth/refresh when the backend does not rotate refresh tokens.
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+export interface RefreshRequest {
+  refresh_token: string;
+}
+
+export interface IssueListParams {
+  limit?: number;
+  /** `next_cursor` from the previous page; `listPage` only. */
+  cursor?: string;
+  site_id?: string;
+  priority?: Issue['priority'];
+  status?: Issue['status'];
+  kanban_column?: KanbanColumn;
+  agent_role?: 'pm' | 'dev' | 'qa';
+  /** ISO timestamp, inclusive. */
+  created_after?: string;
+  /** ISO timestamp, exclusive. */
+  created_before?: string;
+  /** Words that must all appear in the ticket number, title or description. */
+  q?: string;
+  /** Defaults to newest. */
+  sort?: 'newest' | 'oldest' | 'priority';
+  /** Orders by this before `sort`, so each group's issues arrive together. */
+  group_by?: 'site' | 'priority' | 'agent_role';
+}
+
+/** One page of issues, in the order asked for. */
+export interface IssuePage {
+  items: Issue[];
+  /** Pass back as `cursor` for the next page; null on the last one. */
+  next_cursor: string | null;
+  /** Issues matching the query across all pages. */
+  total: number;
+}
+
+/** A named issues page configuration. */
+export interface SavedView {
+  id: string;
+  name: string;
+  owner_id: string;
+  owner_email: string;
+  /** Everyone on the owner's account sees it; only the owner can change it. */
+  shared: boolean;
+  /** The issues page query string it applies, without the "?". */
+  query: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewInput {
+  name: string;
+  shared: boolean;
+  query: string;
+}
+
+/** The caller's own choices among the views they can see. */
+export interface ViewPreferences {
+  /** Opened when /issues is visited without a query. */
+  default_view_id: string | null;
+  /** Listed in the sidebar, in this order. */
+  pinned_view_ids: string[];
+}
+
+export interface CreateIssueRequest {
+  site_id: string;
+  title: string;
+  description: string;
+  priority: Issue['priority'];
+  page_urls?: string[];
+  environment?: ClientEnvironment;
+  /** Staged uploads to attach; they're in place before triage starts. */
+  attachment_ids?: string[];
+  template_id?: string;
+  /** Answers to the template's fields, keyed by `TemplateField.key`. */
+  template_fields?: Record<string, string>;
+}
+
+export type IssueTemplateInput = Omit<IssueTemplate, 'id'>;
+
+export interface SimilarIssuesRequest {
+  site_id: string;
+  title: string;
+  description?: string;
+  limit?: number;
+}
+
+/** An open issue that may describe the same problem as a draft. */
+export interface SimilarIssue {
+  id: string;
+  ticket_number: number | null;
+  title: string;
+  kanban_column: KanbanColumn;
+  created_at: string;
+  /** 0–1; higher is more alike. */
+  score: number;
+}
+
+/** Fields a customer may change on their own issue. */
+export interface UpdateIssueRequest {
+  priority?: Issue['priority'];
+}
+
+export interface TransitionRequest {
+  to_col: KanbanColumn;
+  note?: string;
+  feedback?: FixFeedback;
+}
+
+export interface ApproveFixRequest {
+  rating?: number;
+  comment?: string;
+}
+
+export interface RejectFixRequest {
+  reason: string;
+  category: RejectionCategory;
+  attachment_ids?: string[];
+}
+
+export interface RollbackRequest {
+  reason: string;
+  /** Where the ticket goes once the site is restored. */
+  reopen_to: Extract<KanbanColumn, 'todo' | 'triage'>;
+}
+
+export interface SendMessageRequest {
+  content: string;
+}
+
+export interface CreateSiteRequest {
+  url: string;
+  name: string;
+}
+
+export interface AddCredentialRequest {
+  credential_type: CredentialType;
+  value: Record<string, string | number>;
+}
+
+// ── Admin ─────────────────────────────────────────────────────────────────
+
+export interface AdminRecentTransition {
+  id: string;
+  issue_id: string;
+  from_col: string | null;
+  to_col: string;
+  actor_type: string;
+  note: string | null;
+  created_at: string | null;
+}
+
+export interface AdminStats {
+  total_users: number;
+  total_sites: number;
+  total_issues: number;
+  open_issues: number;
+  resolved_issues: number;
+  issues_by_status: Record<string, number>;
+  agents_running: number;
+  recent_transitions: AdminRecentTransition[];
+  agent_config: Record<string, string>;
+}
+
+export interface AdminIssueSummary {
+  id: string;
+  title: string;
+  status: string;
+  kanban_column: string | null;
+  priority: string;
+  created_at: string | null;
+}
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  plan: string;
+  created_at: string | null;
+  site_count: number;
+}
+
+export interface AdminUserDetail {
+  id: string;
+  email: string;
+  plan: string;
+  created_at: string | null;
+  sites: { id: string; name: string; url: string; status: string; created_at: string | null }[];
+  recent_issues: AdminIssueSummary[];
+}
+
+export interface AdminSite {
+  id: string;
+  name: string;
+  url: string;
+  customer_email: string;
+  status: string;
+  credential_types: string[];
+  created_at: string | null;
+  last_health_check: string | null;
+}
+
+export interface AdminSiteDetail extends AdminSite {
+  issues: AdminIssueSummary[];
+}
+
+export interface AdminIssue {
+  id: string;
+  title: string;
+  site_id: string;
+  site_name: string;
+  customer_email: string;
+  status: string;
+  kanban_column: KanbanColumn | null;
+  priority: string;
+  ticket_number: number | null;
+  created_at: string | null;
+  resolved_at: string | null;
+}
+
+export interface AgentModelConfig {
+  AGENT_MODEL_DEV: string;
+  AGENT_MODEL_QA: string;
+  AGENT_MODEL_PM: string;
+  AGENT_MODEL_TECH_LEAD: string;
+}
+
+export interface AgentConfigResponse {
+  config: AgentModelConfig;
+}
+
+export interface CeleryStatus {
+  ok: boolean;
+  error?: string;
+  workers: string[];
+  active_tasks: Record<string, number>;
+  reserved_tasks: Record<string, number>;
+  raw?: Record<string, unknown>;
+}
+
+export interface RestartWorkersResponse {
+  ok: boolean;
+  method?: string;
+  error?: string;
+}